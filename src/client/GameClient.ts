@@ -6,7 +6,8 @@ import { NetworkClient } from './NetworkClient';
 import { GameRenderer } from './GameRenderer';
 import { UIManager } from './UIManager';
 import { MusicManager } from './MusicManager';
-import { PublicGameState, Die, Card, DudoResult, JontiResult } from '../shared/types';
+import { PublicGameState, Die, Card, DudoResult, JontiResult, DiceCommitment } from '../shared/types';
+import { verifyDiceReveals } from '../shared/fairness';
 
 export class GameClient {
   private network: NetworkClient;
@@ -16,6 +17,11 @@ export class GameClient {
   private gameState: PublicGameState | null = null;
   private playerIndexMap: Map<string, number> = new Map();
   private previousPhase: string | null = null;
+  private lastRenderedDiceKey: string | null = null;
+  private diceCommitments: DiceCommitment[] = []; // Commitments received for the current round
+  private diceCommitmentsRound: number | null = null;
+  private lastGameOver: { winnerName: string; gameNumber: number | null } | null = null; // Most recent finished match, for replays
+  private pendingJoin: { sessionId: string; playerName: string; spectate: boolean } | null = null; // Retried once a password is entered
 
   constructor(container: HTMLElement) {
     // Create UI container
@@ -57,6 +63,7 @@ export class GameClient {
         this.ui.showConnectionError('Disconnected from server');
         // Reset previous phase so reconnection triggers proper screen transition
         this.previousPhase = null;
+        this.lastRenderedDiceKey = null;
         // Go back to lobby music when disconnected
         this.music.toLobby();
       }
@@ -80,18 +87,22 @@ export class GameClient {
       this.ui.updateSessionList(sessions, previousSessionId);
     });
 
-    this.network.on('onSessionCreated', (sessionId, sessionName) => {
+    this.network.on('onSessionCreated', (sessionId, sessionName, inviteCode) => {
       console.log('Session created:', sessionId, sessionName);
+      this.ui.setInviteCode(inviteCode);
       // Will receive connection_accepted next
     });
 
-    this.network.on('onSessionJoined', (sessionId, sessionName) => {
+    this.network.on('onSessionJoined', (sessionId, sessionName, inviteCode) => {
       console.log('Joined session:', sessionId, sessionName);
+      this.pendingJoin = null;
+      this.ui.setInviteCode(inviteCode);
       // Will receive connection_accepted next
     });
 
     this.network.on('onSessionLeft', () => {
       console.log('Left session');
+      this.ui.setSpectator(false);
       this.ui.showScreen('browser-screen');
       this.previousPhase = null;
       this.music.toLobby();
@@ -106,6 +117,7 @@ export class GameClient {
 
     this.network.on('onSessionDeleted', () => {
       console.log('Session deleted by host');
+      this.ui.setSpectator(false);
       this.ui.showScreen('browser-screen');
       this.ui.showNotification('🗑️', 'Session was deleted by the host', 'warning');
       this.previousPhase = null;
@@ -118,10 +130,26 @@ export class GameClient {
       console.log('Connection accepted, playerId:', playerId, 'isHost:', isHost);
       this.ui.setPlayerId(playerId);
       this.ui.setIsHost(isHost);
+      this.ui.setSpectator(false);
+    });
+
+    this.network.on('onSpectating', () => {
+      console.log('Spectating session');
+      this.ui.setPlayerId('');
+      this.ui.setIsHost(false);
+      this.ui.setSpectator(true);
     });
 
     this.network.on('onGameStateUpdate', (state) => {
       this.gameState = state;
+      if (state.phase !== 'lobby' && state.phase !== 'game_over') {
+        this.ui.closeReplay();
+      }
+      if (state.phase === 'lobby') {
+        this.lastRenderedDiceKey = null;
+        this.diceCommitments = [];
+        this.diceCommitmentsRound = null;
+      }
       this.updatePlayerIndexMap();
       this.ui.updateGameState(state);
 
@@ -160,7 +188,12 @@ export class GameClient {
     });
 
     this.network.on('onPrivateInfo', (info) => {
-      this.ui.updatePrivateInfo(info.dice, info.cards);
+      this.ui.updatePrivateInfo(info.dice, info.cards, info.playableCardIds);
+
+      // Private info is also resent when card timing changes; only re-roll the 3D dice if they changed
+      const diceKey = info.dice.map(d => `${d.id}:${d.type}:${d.faceValue}`).join('|');
+      if (diceKey === this.lastRenderedDiceKey) return;
+      this.lastRenderedDiceKey = diceKey;
       
       // Render player's own dice in 3D
       const myPlayerId = this.network.getPlayerId();
@@ -225,13 +258,94 @@ export class GameClient {
       this.renderer.revealAllDice(result.revealedDice, this.playerIndexMap);
     });
 
+    this.network.on('onCalzaCalled', (callerId, callerName) => {
+      this.ui.addSystemMessage(`${callerName} called CALZA!`);
+      this.ui.showNotification('🎯', `<b>${callerName}</b> called <b>CALZA!</b>`, 'warning');
+    });
+
+    this.network.on('onCalzaResult', (result) => {
+      this.ui.showCalzaResult(result);
+      
+      // Reveal all dice in 3D
+      this.renderer.revealAllDice(result.revealedDice, this.playerIndexMap);
+    });
+
+    this.network.on('onTurnTimeout', (timeout) => {
+      const message = timeout.timeoutAction === 'lose_die'
+        ? `${timeout.playerName} ran out of time and forfeits a die`
+        : `${timeout.playerName} ran out of time — ${timeout.timeoutAction === 'dudo' ? 'Dudo called' : 'minimum raise bid'} automatically`;
+      this.ui.addSystemMessage(`⏱️ ${message}`);
+      this.ui.showNotification('⏱️', message.replace(timeout.playerName, `<b>${timeout.playerName}</b>`), 'warning');
+
+      if (timeout.revealedDice) {
+        this.ui.showForfeitResult(timeout.playerId, timeout.revealedDice);
+        this.renderer.revealAllDice(timeout.revealedDice, this.playerIndexMap);
+      }
+    });
+
+    this.network.on('onTimeBankExpired', (playerId, playerName) => {
+      this.ui.addSystemMessage(`⏳ ${playerName}'s time bank ran out — eliminated`);
+      this.ui.showNotification('⏳', `<b>${playerName}</b>'s time bank ran out — eliminated`, 'danger');
+    });
+
+    this.network.on('onPlayerAway', (playerId, playerName, awayMode) => {
+      const message = awayMode === 'bot'
+        ? `${playerName} has not come back — a bot plays for them until they do`
+        : `${playerName} has not come back — their turns are skipped until they do`;
+      this.ui.addSystemMessage(`📡 ${message}`);
+      this.ui.showNotification('📡', message.replace(playerName, `<b>${playerName}</b>`), 'warning');
+    });
+
+    this.network.on('onPlayerForfeited', (playerId, playerName) => {
+      this.ui.addSystemMessage(`📡 ${playerName} never came back and forfeits the game`);
+      this.ui.showNotification('📡', `<b>${playerName}</b> never came back and forfeits the game`, 'danger');
+    });
+
+    this.network.on('onHostChanged', (hostId, hostName, reason) => {
+      const isMe = hostId === this.network.getPlayerId();
+      this.ui.setIsHost(isMe);
+      const message = reason === 'migration'
+        ? `The host left — ${isMe ? 'you are' : `${hostName} is`} now the host`
+        : `${isMe ? 'You are' : `${hostName} is`} now the host`;
+      this.ui.addSystemMessage(`👑 ${message}`);
+      this.ui.showNotification('👑', message, 'info');
+    });
+
     this.network.on('onRoundStarted', (roundNumber) => {
       this.ui.addSystemMessage(`Round ${roundNumber} started!`);
       this.ui.showNotification('🎲', `<b>Round ${roundNumber}</b> started!`, 'info');
       this.renderer.clearAllDice();
+      this.lastRenderedDiceKey = null;
     });
 
-    this.network.on('onGameOver', (winnerId, winnerName) => {
+    this.network.on('onDiceCommitments', (roundNumber, commitments) => {
+      if (roundNumber !== this.diceCommitmentsRound) {
+        this.diceCommitments = [];
+        this.diceCommitmentsRound = roundNumber;
+      }
+      // Keep the whole chain: every version must be opened at reveal
+      for (const commitment of commitments) {
+        this.diceCommitments = this.diceCommitments.filter(
+          c => c.playerId !== commitment.playerId || c.version !== commitment.version
+        );
+        this.diceCommitments.push(commitment);
+      }
+    });
+
+    this.network.on('onDiceRevealed', (reveals, revealedDice) => {
+      const verification = verifyDiceReveals(this.diceCommitments, reveals, revealedDice);
+      this.ui.showDiceVerification(verification);
+      if (verification.mismatchedPlayerIds.length > 0) {
+        const names = verification.mismatchedPlayerIds
+          .map(id => this.gameState?.players.find(p => p.id === id)?.name || 'Unknown')
+          .join(', ');
+        this.ui.addSystemMessage(`⚠️ Dice commitment mismatch for ${names}`);
+        this.ui.showNotification('⚠️', `Dice commitment mismatch for <b>${names}</b>`, 'danger');
+      }
+    });
+
+    this.network.on('onGameOver', (winnerId, winnerName, gameNumber) => {
+      this.lastGameOver = { winnerName, gameNumber };
       this.ui.showGameOver(winnerName);
       // Transition back to lobby music when game ends
       this.music.toMatchEnd();
@@ -246,7 +360,7 @@ export class GameClient {
       
       // If this is our card and there's a result, show it
       if (isOwnCard && result) {
-        this.ui.showCardResult(cardType, cardName, result);
+        this.ui.showCardResult(cardName, result);
       }
     });
 
@@ -258,8 +372,9 @@ export class GameClient {
       this.ui.addChatMessage(playerName, message);
     });
 
-    this.network.on('onServerInfo', (publicIp, port) => {
+    this.network.on('onServerInfo', (publicIp, port, botStrategies) => {
       this.ui.updateServerInfo(publicIp, port);
+      this.ui.setBotStrategies(botStrategies);
     });
 
     this.network.on('onGamePaused', (pausedBy) => {
@@ -278,6 +393,22 @@ export class GameClient {
 
     this.network.on('onError', (message, code) => {
       console.error(`Error [${code}]: ${message}`);
+      if ((code === 'PASSWORD_REQUIRED' || code === 'WRONG_PASSWORD') && this.pendingJoin) {
+        const password = this.ui.promptPassword(`${message}. Enter the session password:`);
+        if (password) {
+          const { sessionId, playerName, spectate } = this.pendingJoin;
+          this.network.joinSession(sessionId, playerName, spectate, password);
+        } else {
+          this.pendingJoin = null;
+        }
+        return;
+      }
+      if (!this.network.isInSession()) {
+        // Still in the server browser, where there is no chat to show errors in
+        this.pendingJoin = null;
+        this.ui.showNotification('⚠️', message, 'danger');
+        return;
+      }
       this.ui.addSystemMessage(`Error: ${message}`);
     });
 
@@ -311,12 +442,13 @@ export class GameClient {
     };
 
     // Session management
-    this.ui.onCreateSession = (sessionName, hostName, settings) => {
-      this.network.createSession(sessionName, hostName, settings);
+    this.ui.onCreateSession = (sessionName, hostName, settings, password, unlisted) => {
+      this.network.createSession(sessionName, hostName, settings, password, unlisted);
     };
 
-    this.ui.onJoinSession = (sessionId, playerName) => {
-      this.network.joinSession(sessionId, playerName);
+    this.ui.onJoinSession = (sessionId, playerName, spectate, password) => {
+      this.pendingJoin = { sessionId, playerName, spectate };
+      this.network.joinSession(sessionId, playerName, spectate, password);
     };
 
     this.ui.onLeaveSession = () => {
@@ -344,16 +476,20 @@ export class GameClient {
       this.network.makeBid(quantity, faceValue);
     };
 
-    this.ui.onCallDudo = () => {
-      this.network.callDudo();
+    this.ui.onCallDudo = (targetBidIndex) => {
+      this.network.callDudo(targetBidIndex);
     };
 
     this.ui.onCallJonti = () => {
       this.network.callJonti();
     };
 
-    this.ui.onPlayCard = (cardId, targetPlayerId, targetDieId, additionalData) => {
-      this.network.playCard(cardId, targetPlayerId, targetDieId, additionalData);
+    this.ui.onCallCalza = () => {
+      this.network.callCalza();
+    };
+
+    this.ui.onPlayCard = (cardId, input) => {
+      this.network.playCard(cardId, input);
     };
 
     this.ui.onReadyForRound = () => {
@@ -376,13 +512,43 @@ export class GameClient {
       this.network.requestNewGame();
     };
 
+    this.ui.onWatchReplay = async () => {
+      const sessionId = this.network.getCurrentSessionId();
+      if (!sessionId || !this.lastGameOver || this.lastGameOver.gameNumber === null) return;
+
+      try {
+        const record = await this.network.fetchMatchRecord(sessionId, this.lastGameOver.gameNumber);
+        this.ui.showReplay(record, this.renderer);
+      } catch (error) {
+        console.error('Failed to load replay:', error);
+        this.ui.showNotification('🎬', 'Could not load the replay', 'danger');
+      }
+    };
+
+    this.ui.onReplayClosed = () => {
+      // The replay drew over the table; the next private info update redraws our own dice
+      this.renderer.clearAllDice();
+      this.lastRenderedDiceKey = null;
+      if (this.gameState?.phase === 'game_over' && this.lastGameOver) {
+        this.ui.showGameOver(this.lastGameOver.winnerName);
+      }
+    };
+
     this.ui.onKickPlayer = (playerId) => {
       this.network.kickPlayer(playerId);
     };
 
+    this.ui.onTransferHost = (playerId) => {
+      this.network.transferHost(playerId);
+    };
+
     this.ui.onSelectSlot = (slot) => {
       this.network.selectSlot(slot);
     };
+
+    this.ui.onAddBot = (slot, strategyId) => {
+      this.network.addBot(slot, strategyId);
+    };
   }
 
   private updatePlayerIndexMap(): void {
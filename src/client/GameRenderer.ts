@@ -542,6 +542,25 @@ export class GameRenderer {
     return mesh;
   }
 
+  // Place shadow dice for a player without animating (used by the replay viewer)
+  public renderShadowDice(diceCount: number, playerIndex: number): void {
+    const position = this.playerPositions[playerIndex];
+    if (!position) return;
+
+    this.clearPlayerDice(playerIndex);
+
+    for (let i = 0; i < diceCount; i++) {
+      const mesh = this.createShadowDieMesh();
+      const offsetX = (i - (diceCount - 1) / 2) * 1.2;
+      mesh.position.set(position.x + offsetX * 1.0, position.y, position.z);
+
+      const shadowDieId = `shadow-${i}`;
+      mesh.userData = { dieId: shadowDieId, playerIndex, isShadow: true };
+      this.diceObjects.set(`${playerIndex}-${shadowDieId}`, mesh);
+      this.scene.add(mesh);
+    }
+  }
+
   // Animate shadow dice roll for other players (same animation as regular dice)
   public animateShadowDiceRoll(diceCount: number, playerIndex: number): Promise<void> {
     return new Promise((resolve) => {
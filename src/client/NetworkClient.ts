@@ -9,11 +9,24 @@ import {
   PrivateInfoPayload,
   Die,
   Card,
+  CardType,
   Bid,
   DudoResult,
   JontiResult,
+  CalzaResult,
   SessionInfo,
-  GameSettings
+  GameSettings,
+  DiceCommitment,
+  DiceReveal,
+  GameEvent,
+  MatchRecord,
+  BotStrategyInfo,
+  TurnTimeoutPayload,
+  DisconnectAction,
+  HostChangeReason,
+  UpdateSessionSettingsPayload,
+  CardInput,
+  CardResult
 } from '../shared/types';
 
 export type ConnectionState = 'disconnected' | 'connecting' | 'connected';
@@ -22,15 +35,16 @@ export interface NetworkClientEvents {
   // Session management events
   onRegistered: (identityId: string, playerName: string, previousSessionId: string | null) => void;
   onSessionsList: (sessions: SessionInfo[], previousSessionId: string | null) => void;
-  onSessionCreated: (sessionId: string, sessionName: string) => void;
-  onSessionJoined: (sessionId: string, sessionName: string) => void;
+  onSessionCreated: (sessionId: string, sessionName: string, inviteCode: string) => void;
+  onSessionJoined: (sessionId: string, sessionName: string, inviteCode: string) => void;
   onSessionLeft: () => void;
   onSessionUpdated: (sessions: SessionInfo[], previousSessionId: string | null) => void;
-  onSessionSettingsUpdated: (settings: { mode: string; maxPlayers: number }) => void;
+  onSessionSettingsUpdated: (settings: GameSettings) => void;
   onSessionDeleted: () => void;
   // Game events
   onConnectionStateChange: (state: ConnectionState) => void;
   onConnectionAccepted: (playerId: string, isHost: boolean) => void;
+  onSpectating: () => void;
   onGameStateUpdate: (state: PublicGameState) => void;
   onPrivateInfo: (info: PrivateInfoPayload) => void;
   onPlayerJoined: (playerId: string, playerName: string) => void;
@@ -40,16 +54,26 @@ export interface NetworkClientEvents {
   onDudoResult: (result: DudoResult) => void;
   onJontiCalled: (callerId: string, callerName: string) => void;
   onJontiResult: (result: JontiResult) => void;
+  onCalzaCalled: (callerId: string, callerName: string) => void;
+  onCalzaResult: (result: CalzaResult) => void;
+  onTurnTimeout: (timeout: TurnTimeoutPayload) => void;
+  onTimeBankExpired: (playerId: string, playerName: string) => void;
+  onPlayerAway: (playerId: string, playerName: string, awayMode: DisconnectAction) => void;
+  onPlayerForfeited: (playerId: string, playerName: string) => void;
+  onHostChanged: (hostId: string, hostName: string, reason: HostChangeReason) => void;
   onRoundStarted: (roundNumber: number) => void;
-  onGameOver: (winnerId: string, winnerName: string) => void;
-  onCardPlayed: (playerId: string, cardType: string, cardName: string, result?: any) => void;
+  onDiceCommitments: (roundNumber: number, commitments: DiceCommitment[]) => void;
+  onDiceRevealed: (reveals: DiceReveal[], revealedDice: { playerId: string; dice: Die[] }[]) => void;
+  onGameOver: (winnerId: string | null, winnerName: string, gameNumber: number | null) => void;
+  onCardPlayed: (playerId: string, cardType: CardType, cardName: string, result?: CardResult) => void;
   onCardDrawn: (card: Card) => void;
   onChat: (playerId: string, playerName: string, message: string) => void;
   onError: (message: string, code: string) => void;
-  onServerInfo: (publicIp: string, port: number) => void;
+  onServerInfo: (publicIp: string, port: number, botStrategies: BotStrategyInfo[]) => void;
   onGamePaused: (pausedBy: string) => void;
   onGameResumed: (resumedBy: string) => void;
   onPlayerKicked: (reason: string) => void;
+  onGameEvents: (events: GameEvent[]) => void;
 }
 
 export class NetworkClient {
@@ -59,7 +83,10 @@ export class NetworkClient {
   private events: Partial<NetworkClientEvents> = {};
   private playerId: string = '';
   private isHost: boolean = false;
+  private isSpectator: boolean = false;
   private identityId: string = '';
+  private reconnectToken: string | null = null; // Server-issued secret for reclaiming our seat
+  private sessionPassword: string | null = null; // What we joined with, for downloads a spectator has no seat token for
   private currentSessionId: string | null = null;
   private reconnectAttempts: number = 0;
   private maxReconnectAttempts: number = 5;
@@ -70,6 +97,7 @@ export class NetworkClient {
     if (savedIdentity) {
       this.identityId = savedIdentity;
     }
+    this.reconnectToken = localStorage.getItem('perudo_reconnect_token');
   }
 
   public on<K extends keyof NetworkClientEvents>(
@@ -81,7 +109,9 @@ export class NetworkClient {
 
   public connect(host: string, port: number): Promise<void> {
     return new Promise((resolve, reject) => {
-      this.serverUrl = `ws://${host}:${port}`;
+      // Pages served over TLS can only open secure sockets
+      const scheme = window.location.protocol === 'https:' ? 'wss' : 'ws';
+      this.serverUrl = `${scheme}://${host}:${port}`;
       this.setConnectionState('connecting');
 
       try {
@@ -145,7 +175,7 @@ export class NetworkClient {
     console.log(`Attempting to reconnect in ${delay}ms...`);
     setTimeout(() => {
       if (this.connectionState === 'disconnected') {
-        const [host, portStr] = this.serverUrl.replace('ws://', '').split(':');
+        const [host, portStr] = this.serverUrl.replace(/^wss?:\/\//, '').split(':');
         this.connect(host, parseInt(portStr, 10)).catch(() => {});
       }
     }, delay);
@@ -177,7 +207,8 @@ export class NetworkClient {
         this.currentSessionId = message.payload.sessionId;
         this.events.onSessionCreated?.(
           message.payload.sessionId,
-          message.payload.sessionName
+          message.payload.sessionName,
+          message.payload.inviteCode
         );
         break;
 
@@ -185,14 +216,17 @@ export class NetworkClient {
         this.currentSessionId = message.payload.sessionId;
         this.events.onSessionJoined?.(
           message.payload.sessionId,
-          message.payload.sessionName
+          message.payload.sessionName,
+          message.payload.inviteCode
         );
         break;
 
       case 'session_left':
         this.currentSessionId = null;
+        this.sessionPassword = null;
         this.playerId = '';
         this.isHost = false;
+        this.isSpectator = false;
         this.events.onSessionLeft?.();
         break;
 
@@ -209,6 +243,9 @@ export class NetworkClient {
 
       case 'session_deleted':
         this.currentSessionId = null;
+        this.sessionPassword = null;
+        this.isSpectator = false;
+        this.setReconnectToken(null);
         this.events.onSessionDeleted?.();
         break;
 
@@ -216,10 +253,25 @@ export class NetworkClient {
       case 'connection_accepted':
         this.playerId = message.payload.playerId;
         this.isHost = message.payload.isHost;
+        this.setReconnectToken(message.payload.reconnectToken ?? null);
         this.events.onConnectionAccepted?.(this.playerId, this.isHost);
         this.events.onGameStateUpdate?.(message.payload.gameState);
         break;
 
+      case 'spectating':
+        this.playerId = '';
+        this.isHost = false;
+        this.isSpectator = true;
+        this.events.onSpectating?.();
+        this.events.onGameStateUpdate?.(message.payload.gameState);
+        break;
+
+      case 'host_changed':
+        this.isHost = message.payload.hostId === this.playerId;
+        this.events.onHostChanged?.(message.payload.hostId, message.payload.hostName, message.payload.reason);
+        this.events.onGameStateUpdate?.(message.payload.gameState);
+        break;
+
       case 'player_joined':
         this.events.onPlayerJoined?.(
           message.payload.playerId,
@@ -237,6 +289,12 @@ export class NetworkClient {
         break;
 
       case 'game_started':
+        if (message.payload.commitments) {
+          this.events.onDiceCommitments?.(message.payload.gameState.roundNumber, message.payload.commitments);
+        }
+        this.events.onGameStateUpdate?.(message.payload.gameState);
+        break;
+
       case 'game_state_update':
         this.events.onGameStateUpdate?.(message.payload.gameState);
         break;
@@ -259,6 +317,9 @@ export class NetworkClient {
 
       case 'dudo_result':
         this.events.onDudoResult?.(message.payload.result);
+        if (message.payload.reveals) {
+          this.events.onDiceRevealed?.(message.payload.reveals, message.payload.result.revealedDice);
+        }
         this.events.onGameStateUpdate?.(message.payload.gameState);
         break;
 
@@ -271,18 +332,69 @@ export class NetworkClient {
 
       case 'jonti_result':
         this.events.onJontiResult?.(message.payload.result);
+        if (message.payload.reveals) {
+          this.events.onDiceRevealed?.(message.payload.reveals, message.payload.result.revealedDice);
+        }
+        this.events.onGameStateUpdate?.(message.payload.gameState);
+        break;
+
+      case 'calza_called':
+        this.events.onCalzaCalled?.(
+          message.payload.callerId,
+          message.payload.callerName
+        );
+        break;
+
+      case 'calza_result':
+        this.events.onCalzaResult?.(message.payload.result);
+        if (message.payload.reveals) {
+          this.events.onDiceRevealed?.(message.payload.reveals, message.payload.result.revealedDice);
+        }
+        this.events.onGameStateUpdate?.(message.payload.gameState);
+        break;
+
+      case 'turn_timeout':
+        this.events.onTurnTimeout?.(message.payload);
+        if (message.payload.reveals && message.payload.revealedDice) {
+          this.events.onDiceRevealed?.(message.payload.reveals, message.payload.revealedDice);
+        }
+        if (message.payload.gameState) {
+          this.events.onGameStateUpdate?.(message.payload.gameState);
+        }
+        break;
+
+      case 'time_bank_expired':
+        this.events.onTimeBankExpired?.(message.payload.playerId, message.payload.playerName);
+        this.events.onGameStateUpdate?.(message.payload.gameState);
+        break;
+
+      case 'player_away':
+        this.events.onPlayerAway?.(message.payload.playerId, message.payload.playerName, message.payload.awayMode);
+        this.events.onGameStateUpdate?.(message.payload.gameState);
+        break;
+
+      case 'player_forfeited':
+        this.events.onPlayerForfeited?.(message.payload.playerId, message.payload.playerName);
         this.events.onGameStateUpdate?.(message.payload.gameState);
         break;
 
       case 'round_started':
         this.events.onRoundStarted?.(message.payload.roundNumber);
+        if (message.payload.commitments) {
+          this.events.onDiceCommitments?.(message.payload.roundNumber, message.payload.commitments);
+        }
         this.events.onGameStateUpdate?.(message.payload.gameState);
         break;
 
+      case 'dice_commitments':
+        this.events.onDiceCommitments?.(message.payload.roundNumber, message.payload.commitments);
+        break;
+
       case 'game_over':
         this.events.onGameOver?.(
           message.payload.winnerId,
-          message.payload.winnerName
+          message.payload.winnerName || 'Unknown',
+          message.payload.gameNumber ?? null
         );
         this.events.onGameStateUpdate?.(message.payload.gameState);
         break;
@@ -314,7 +426,8 @@ export class NetworkClient {
       case 'server_info':
         this.events.onServerInfo?.(
           message.payload.publicIp,
-          message.payload.port
+          message.payload.port,
+          message.payload.botStrategies || []
         );
         break;
 
@@ -333,11 +446,16 @@ export class NetworkClient {
         break;
 
       case 'player_kicked':
+        this.setReconnectToken(null);
         this.events.onPlayerKicked?.(message.payload.reason);
         break;
 
+      case 'game_events':
+        this.events.onGameEvents?.(message.payload.events);
+        break;
+
       default:
-        console.log('Unknown message type:', (message as any).type);
+        console.log('Unknown message type:', (message as { type: string }).type);
     }
   }
 
@@ -355,7 +473,8 @@ export class NetworkClient {
       type: 'register',
       payload: { 
         identityId: this.identityId || undefined,
-        playerName 
+        playerName,
+        reconnectToken: this.reconnectToken || undefined
       }
     });
   }
@@ -367,17 +486,20 @@ export class NetworkClient {
     });
   }
 
-  public createSession(sessionName: string, hostName: string, settings?: Partial<GameSettings>): void {
+  public createSession(sessionName: string, hostName: string, settings?: Partial<GameSettings>, password?: string, unlisted: boolean = false): void {
+    this.sessionPassword = password || null;
     this.send({
       type: 'create_session',
-      payload: { sessionName, hostName, settings }
+      payload: { sessionName, hostName, settings, password, unlisted }
     });
   }
 
-  public joinSession(sessionId: string, playerName: string): void {
+  /** sessionId may also be an invite code */
+  public joinSession(sessionId: string, playerName: string, spectate: boolean = false, password?: string): void {
+    this.sessionPassword = password || null;
     this.send({
       type: 'join_session',
-      payload: { sessionId, playerName }
+      payload: { sessionId, playerName, spectate, password, reconnectToken: this.reconnectToken || undefined }
     });
   }
 
@@ -388,7 +510,7 @@ export class NetworkClient {
     });
   }
 
-  public updateSessionSettings(settings: { mode?: string; maxPlayers?: number }): void {
+  public updateSessionSettings(settings: UpdateSessionSettingsPayload): void {
     this.send({
       type: 'update_session_settings',
       payload: settings
@@ -431,10 +553,10 @@ export class NetworkClient {
     });
   }
 
-  public callDudo(): void {
+  public callDudo(targetBidIndex?: number): void {
     this.send({
       type: 'call_dudo',
-      payload: {}
+      payload: { targetBidIndex }
     });
   }
 
@@ -445,20 +567,18 @@ export class NetworkClient {
     });
   }
 
-  public playCard(
-    cardId: string,
-    targetPlayerId?: string,
-    targetDieId?: string,
-    additionalData?: any
-  ): void {
+  public callCalza(): void {
+    this.send({
+      type: 'call_calza',
+      payload: {}
+    });
+  }
+
+  public playCard(cardId: string, input: CardInput): void {
+    const { cardType, ...targets } = input;
     this.send({
       type: 'play_card',
-      payload: {
-        cardId,
-        targetPlayerId,
-        targetDieId,
-        additionalData
-      }
+      payload: { cardId, ...targets }
     });
   }
 
@@ -497,6 +617,13 @@ export class NetworkClient {
     });
   }
 
+  public transferHost(playerId: string): void {
+    this.send({
+      type: 'transfer_host',
+      payload: { playerId }
+    });
+  }
+
   public selectSlot(slot: number | null): void {
     this.send({
       type: 'select_slot',
@@ -504,6 +631,51 @@ export class NetworkClient {
     });
   }
 
+  public addBot(slot: number, strategyId: string): void {
+    this.send({
+      type: 'add_bot',
+      payload: { slot, strategyId }
+    });
+  }
+
+  public requestGameEvents(sinceSeq?: number): void {
+    this.send({
+      type: 'get_game_events',
+      payload: { sinceSeq }
+    });
+  }
+
+  /**
+   * Download a finished match of a session from the server's HTTP API, proving we sat at
+   * the table with our seat's token or (as a spectator) with the session password
+   */
+  public async fetchMatchRecord(sessionId: string, gameNumber: number): Promise<MatchRecord> {
+    const httpUrl = this.serverUrl.replace(/^ws(s?):\/\//, 'http$1://'); // wss:// maps to https://
+    const headers: Record<string, string> = {};
+    if (this.reconnectToken) {
+      headers['X-Reconnect-Token'] = this.reconnectToken;
+    }
+    if (this.sessionPassword) {
+      headers['X-Session-Password'] = this.sessionPassword;
+    }
+
+    const response = await fetch(`${httpUrl}/api/sessions/${encodeURIComponent(sessionId)}/matches/${gameNumber}`, { headers });
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new Error(body?.error ?? `Failed to load match (${response.status})`);
+    }
+    return response.json();
+  }
+
+  private setReconnectToken(token: string | null): void {
+    this.reconnectToken = token;
+    if (token) {
+      localStorage.setItem('perudo_reconnect_token', token);
+    } else {
+      localStorage.removeItem('perudo_reconnect_token');
+    }
+  }
+
   public getPlayerId(): string {
     return this.playerId;
   }
@@ -512,6 +684,10 @@ export class NetworkClient {
     return this.isHost;
   }
 
+  public getIsSpectator(): boolean {
+    return this.isSpectator;
+  }
+
   public getConnectionState(): ConnectionState {
     return this.connectionState;
   }
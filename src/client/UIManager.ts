@@ -10,49 +10,101 @@ import {
   Card, 
   DudoResult,
   JontiResult,
+  CalzaResult,
   GamePhase,
   SessionInfo,
   GameSettings,
-  GameMode
+  GameMode,
+  DiceVerificationResult,
+  GameAction,
+  GameState,
+  MatchRecord,
+  BotStrategyInfo,
+  TurnTimeoutAction,
+  TurnTimer,
+  DisconnectAction,
+  UpdateSessionSettingsPayload,
+  ActiveEffects,
+  CardInput,
+  CardResult
 } from '../shared/types';
+import {
+  MatchReplay,
+  createMatchReplay,
+  getReplayState,
+  getReplayAction,
+  getReplayLength,
+  seekReplay
+} from '../shared/replay';
+import { isValidFaceValue } from '../shared/dice';
+import { getMinimumBidQuantity } from '../shared/gameState';
+import { DEFAULT_BOT_STRATEGY_ID } from '../shared/bots';
+import {
+  BidProbabilityTable,
+  calculateBidProbabilities,
+  getBidSuccessProbability,
+  getExactBidProbability
+} from '../shared/probability';
+import { GameRenderer } from './GameRenderer';
 
 export class UIManager {
   private container: HTMLElement;
   private gameState: PublicGameState | null = null;
-  private privateInfo: { dice: Die[]; cards: Card[] } | null = null;
+  private privateInfo: { dice: Die[]; cards: Card[]; playableCardIds: string[] } | null = null;
   private playerId: string = '';
   private isHost: boolean = false;
+  private isSpectator: boolean = false;
   private pendingCard: Card | null = null;
   private selectedTargetPlayerId: string | null = null;
   private selectedTargetDieId: string | null = null;
   private selectedDieIds: string[] = [];
   private wasMyTurn: boolean = false;
+  private showOdds: boolean = localStorage.getItem('perudo_show_odds') === 'true';
+  private botStrategies: BotStrategyInfo[] = [];
+  private selectedBotStrategyId: string = DEFAULT_BOT_STRATEGY_ID;
+
+  // Bidding clocks, counted down locally from when the state arrived (server clock skew does not matter)
+  private turnTimer: TurnTimer | null = null;
+  private clocksReceivedAt: number = 0;
+  private clockInterval: ReturnType<typeof setInterval> | null = null;
+
+  // Replay viewer state
+  private replay: MatchReplay | null = null;
+  private replayRenderer: GameRenderer | null = null;
+  private replayViewerId: string | null = null; // null = omniscient view
+  private replayTimer: ReturnType<typeof setInterval> | null = null;
+  private screenAfterReplay: string = 'game-screen';
 
   // Volume callback
   public onVolumeChange: ((volume: number) => void) | null = null;
 
   // Session callbacks
   public onConnect: ((playerName: string) => void) | null = null;
-  public onCreateSession: ((sessionName: string, hostName: string, settings?: Partial<GameSettings>) => void) | null = null;
-  public onJoinSession: ((sessionId: string, playerName: string) => void) | null = null;
+  public onCreateSession: ((sessionName: string, hostName: string, settings?: Partial<GameSettings>, password?: string, unlisted?: boolean) => void) | null = null;
+  public onJoinSession: ((sessionId: string, playerName: string, spectate: boolean, password?: string) => void) | null = null;
   public onLeaveSession: (() => void) | null = null;
   public onRefreshSessions: (() => void) | null = null;
-  public onUpdateSessionSettings: ((settings: { mode?: string; maxPlayers?: number }) => void) | null = null;
+  public onUpdateSessionSettings: ((settings: UpdateSessionSettingsPayload) => void) | null = null;
   public onDeleteSession: (() => void) | null = null;
   
   // Game callbacks
   public onStartGame: (() => void) | null = null;
   public onMakeBid: ((quantity: number, faceValue: number) => void) | null = null;
-  public onCallDudo: (() => void) | null = null;
+  public onCallDudo: ((targetBidIndex?: number) => void) | null = null;
   public onCallJonti: (() => void) | null = null;
-  public onPlayCard: ((cardId: string, targetPlayerId?: string, targetDieId?: string, additionalData?: any) => void) | null = null;
+  public onCallCalza: (() => void) | null = null;
+  public onPlayCard: ((cardId: string, input: CardInput) => void) | null = null;
   public onReadyForRound: (() => void) | null = null;
   public onSendChat: ((message: string) => void) | null = null;
   public onNewGame: (() => void) | null = null;
   public onPauseGame: (() => void) | null = null;
   public onResumeGame: (() => void) | null = null;
   public onKickPlayer: ((playerId: string) => void) | null = null;
+  public onTransferHost: ((playerId: string) => void) | null = null;
   public onSelectSlot: ((slot: number | null) => void) | null = null;
+  public onAddBot: ((slot: number, strategyId: string) => void) | null = null;
+  public onWatchReplay: (() => void) | null = null;
+  public onReplayClosed: (() => void) | null = null;
 
   constructor(container: HTMLElement) {
     this.container = container;
@@ -92,6 +144,11 @@ export class UIManager {
               <div class="browser-header">
                 <h2>🎮 Game Sessions</h2>
                 <div class="browser-actions">
+                  <div class="btn-with-help invite-code-join">
+                    <input type="text" id="invite-code-input" class="invite-code-input" placeholder="Invite code" maxlength="6">
+                    <button id="join-invite-btn" class="btn secondary">Join</button>
+                    <span class="help-icon">?<span class="tooltip">Join a session with the invite code its players shared with you, including unlisted sessions</span></span>
+                  </div>
                   <div class="btn-with-help">
                     <button id="refresh-sessions-btn" class="btn secondary">🔄 Refresh</button>
                     <span class="help-icon">?<span class="tooltip">Refresh the list of available game sessions</span></span>
@@ -121,6 +178,17 @@ export class UIManager {
               <label for="session-name">Session Name:</label>
               <input type="text" id="session-name" placeholder="My Game Room" maxlength="30">
             </div>
+            <div class="form-group">
+              <label for="session-password">Password (optional):</label>
+              <input type="password" id="session-password" placeholder="Leave empty for an open session" maxlength="50">
+            </div>
+            <div class="form-group">
+              <label for="session-unlisted">Visibility:</label>
+              <select id="session-unlisted">
+                <option value="off" selected>Listed in browser</option>
+                <option value="on">Unlisted (invite code only)</option>
+              </select>
+            </div>
             <div class="form-group">
               <label for="session-mode">Game Mode:</label>
               <select id="session-mode">
@@ -139,6 +207,94 @@ export class UIManager {
                 <option value="6" selected>6 Players</option>
               </select>
             </div>
+            <div class="form-group">
+              <label for="session-calza">Calza:</label>
+              <select id="session-calza">
+                <option value="off" selected>Off</option>
+                <option value="on">On</option>
+              </select>
+            </div>
+            <div class="form-group">
+              <label for="session-last-stand">Last Stand:</label>
+              <select id="session-last-stand">
+                <option value="off" selected>Off</option>
+                <option value="on">On</option>
+              </select>
+            </div>
+            <div class="form-group">
+              <label for="session-odds-overlay">Odds Overlay:</label>
+              <select id="session-odds-overlay">
+                <option value="on" selected>Allowed</option>
+                <option value="off">Off</option>
+              </select>
+            </div>
+            <div class="form-group">
+              <label for="session-turn-timer">Turn Timer:</label>
+              <select id="session-turn-timer">
+                <option value="0" selected>Off</option>
+                <option value="15">15 seconds</option>
+                <option value="30">30 seconds</option>
+                <option value="45">45 seconds</option>
+                <option value="60">60 seconds</option>
+                <option value="90">90 seconds</option>
+                <option value="120">2 minutes</option>
+              </select>
+            </div>
+            <div class="form-group">
+              <label for="session-timeout-action">On Timeout:</label>
+              <select id="session-timeout-action">
+                <option value="min_raise" selected>Minimum raise</option>
+                <option value="dudo">Call Dudo</option>
+                <option value="lose_die">Lose a die</option>
+              </select>
+            </div>
+            <div class="form-group">
+              <label for="session-time-bank">Time Bank:</label>
+              <select id="session-time-bank">
+                <option value="0" selected>Off</option>
+                <option value="60">1 minute</option>
+                <option value="180">3 minutes</option>
+                <option value="300">5 minutes</option>
+                <option value="600">10 minutes</option>
+                <option value="900">15 minutes</option>
+              </select>
+            </div>
+            <div class="form-group">
+              <label for="session-time-increment">Increment:</label>
+              <select id="session-time-increment">
+                <option value="0" selected>None</option>
+                <option value="2">+2 seconds</option>
+                <option value="5">+5 seconds</option>
+                <option value="10">+10 seconds</option>
+              </select>
+            </div>
+            <div class="form-group">
+              <label for="session-disconnect-grace">Reconnect Grace:</label>
+              <select id="session-disconnect-grace">
+                <option value="0">Wait indefinitely</option>
+                <option value="30">30 seconds</option>
+                <option value="60" selected>1 minute</option>
+                <option value="120">2 minutes</option>
+                <option value="300">5 minutes</option>
+              </select>
+            </div>
+            <div class="form-group">
+              <label for="session-disconnect-action">Then:</label>
+              <select id="session-disconnect-action">
+                <option value="skip" selected>Skip their turns</option>
+                <option value="bot">Bot plays for them</option>
+              </select>
+            </div>
+            <div class="form-group">
+              <label for="session-disconnect-forfeit">Forfeit After:</label>
+              <select id="session-disconnect-forfeit">
+                <option value="0">Never</option>
+                <option value="120">2 minutes</option>
+                <option value="300" selected>5 minutes</option>
+                <option value="600">10 minutes</option>
+                <option value="1800">30 minutes</option>
+              </select>
+            </div>
             <div class="modal-buttons">
               <button id="cancel-create-session" class="btn secondary">Cancel</button>
               <button id="confirm-create-session" class="btn primary">Create</button>
@@ -186,6 +342,7 @@ export class UIManager {
               <div class="panel lobby-info-panel">
                 <h3>Server Info</h3>
                 <div id="server-info" class="server-info"></div>
+                <div id="invite-code" class="invite-code"></div>
               </div>
               <!-- Host Settings Panel (only visible to host) -->
               <div id="host-settings-panel" class="panel lobby-settings-panel" style="display: none;">
@@ -208,6 +365,94 @@ export class UIManager {
                     <option value="6">6</option>
                   </select>
                 </div>
+                <div class="settings-group">
+                  <label for="settings-calza">Calza:</label>
+                  <select id="settings-calza" class="settings-select">
+                    <option value="off">Off</option>
+                    <option value="on">On</option>
+                  </select>
+                </div>
+                <div class="settings-group">
+                  <label for="settings-last-stand">Last Stand:</label>
+                  <select id="settings-last-stand" class="settings-select">
+                    <option value="off">Off</option>
+                    <option value="on">On</option>
+                  </select>
+                </div>
+                <div class="settings-group">
+                  <label for="settings-odds-overlay">Odds Overlay:</label>
+                  <select id="settings-odds-overlay" class="settings-select">
+                    <option value="on">Allowed</option>
+                    <option value="off">Off</option>
+                  </select>
+                </div>
+                <div class="settings-group">
+                  <label for="settings-turn-timer">Turn Timer:</label>
+                  <select id="settings-turn-timer" class="settings-select">
+                    <option value="0">Off</option>
+                    <option value="15">15 seconds</option>
+                    <option value="30">30 seconds</option>
+                    <option value="45">45 seconds</option>
+                    <option value="60">60 seconds</option>
+                    <option value="90">90 seconds</option>
+                    <option value="120">2 minutes</option>
+                  </select>
+                </div>
+                <div class="settings-group">
+                  <label for="settings-timeout-action">On Timeout:</label>
+                  <select id="settings-timeout-action" class="settings-select">
+                    <option value="min_raise">Minimum raise</option>
+                    <option value="dudo">Call Dudo</option>
+                    <option value="lose_die">Lose a die</option>
+                  </select>
+                </div>
+                <div class="settings-group">
+                  <label for="settings-time-bank">Time Bank:</label>
+                  <select id="settings-time-bank" class="settings-select">
+                    <option value="0">Off</option>
+                    <option value="60">1 minute</option>
+                    <option value="180">3 minutes</option>
+                    <option value="300">5 minutes</option>
+                    <option value="600">10 minutes</option>
+                    <option value="900">15 minutes</option>
+                  </select>
+                </div>
+                <div class="settings-group">
+                  <label for="settings-time-increment">Increment:</label>
+                  <select id="settings-time-increment" class="settings-select">
+                    <option value="0">None</option>
+                    <option value="2">+2 seconds</option>
+                    <option value="5">+5 seconds</option>
+                    <option value="10">+10 seconds</option>
+                  </select>
+                </div>
+                <div class="settings-group">
+                  <label for="settings-disconnect-grace">Reconnect Grace:</label>
+                  <select id="settings-disconnect-grace" class="settings-select">
+                    <option value="0">Wait indefinitely</option>
+                    <option value="30">30 seconds</option>
+                    <option value="60">1 minute</option>
+                    <option value="120">2 minutes</option>
+                    <option value="300">5 minutes</option>
+                  </select>
+                </div>
+                <div class="settings-group">
+                  <label for="settings-disconnect-action">Then:</label>
+                  <select id="settings-disconnect-action" class="settings-select">
+                    <option value="skip">Skip their turns</option>
+                    <option value="bot">Bot plays for them</option>
+                  </select>
+                </div>
+                <div class="settings-group">
+                  <label for="settings-disconnect-forfeit">Forfeit After:</label>
+                  <select id="settings-disconnect-forfeit" class="settings-select">
+                    <option value="0">Never</option>
+                    <option value="120">2 minutes</option>
+                    <option value="300">5 minutes</option>
+                    <option value="600">10 minutes</option>
+                    <option value="1800">30 minutes</option>
+                  </select>
+                </div>
                 <div class="settings-actions">
                   <button id="delete-session-btn" class="btn danger">🗑️ Delete Session</button>
                 </div>
@@ -226,7 +471,10 @@ export class UIManager {
           <div id="top-bar" class="top-bar">
             <div id="round-info" class="round-info">Round 1</div>
             <div id="current-bid" class="current-bid">No bid yet</div>
+            <div id="round-modifier-banner" class="round-modifier-banner" style="display: none;"></div>
             <div id="turn-indicator" class="turn-indicator"></div>
+            <div id="deck-info" class="deck-info" style="display: none;"></div>
+            <div id="spectator-banner" class="spectator-banner" style="display: none;">👁️ Spectating</div>
             <div class="top-bar-right">
               <div id="topbar-volume" class="topbar-volume">
                 <span class="volume-icon-small">🔉</span>
@@ -253,6 +501,14 @@ export class UIManager {
 
           <!-- Action Panel -->
           <div id="action-panel" class="action-panel">
+            <div id="bid-history" class="bid-history"></div>
+            <div id="odds-overlay" class="odds-overlay" style="display: none;">
+              <label class="odds-toggle">
+                <input type="checkbox" id="odds-toggle">
+                📊 Show odds
+              </label>
+              <div id="odds-details" class="odds-details"></div>
+            </div>
             <div id="bid-controls" class="bid-controls">
               <div class="bid-inputs">
                 <label>Quantity:</label>
@@ -280,6 +536,10 @@ export class UIManager {
                   <button id="jonti-btn" class="btn warning">Call Jonti!</button>
                   <span class="help-icon">?<span class="tooltip">Claim the bid is EXACTLY correct! High risk, high reward. Win: previous bidder loses a die. Lose: you lose a die.</span></span>
                 </div>
+                <div class="btn-with-help" id="calza-control" style="display: none;">
+                  <button id="calza-btn" class="btn warning">Calza!</button>
+                  <span class="help-icon">?<span class="tooltip">Anyone but the bidder can call Calza, even out of turn. If the bid is EXACTLY correct you regain a die; otherwise you lose one.</span></span>
+                </div>
               </div>
             </div>
           </div>
@@ -292,18 +552,48 @@ export class UIManager {
             </div>
             <div id="chat-messages" class="chat-messages"></div>
             <div class="chat-input-container">
-              <input type="text" id="chat-input" placeholder="Type a message...">
+              <input type="text" id="chat-input" placeholder="Type a message..." maxlength="200">
               <button id="chat-send-btn" class="btn">Send</button>
             </div>
           </div>
         </div>
 
+        <!-- Replay Screen -->
+        <div id="replay-screen" class="screen">
+          <div class="replay-top-bar">
+            <div class="replay-title">🎬 Replay</div>
+            <div id="replay-step-info" class="replay-step-info"></div>
+            <div class="replay-view-select">
+              <label for="replay-viewer">View:</label>
+              <select id="replay-viewer"></select>
+            </div>
+            <button id="replay-close-btn" class="btn secondary">✕ Close</button>
+          </div>
+          <div id="replay-players" class="replay-players"></div>
+          <div class="replay-bids-panel">
+            <h3>Bids</h3>
+            <div id="replay-bids" class="replay-bids"></div>
+          </div>
+          <div class="replay-controls">
+            <div id="replay-action" class="replay-action"></div>
+            <div class="replay-buttons">
+              <button id="replay-start-btn" class="btn secondary" title="Jump to start">⏮</button>
+              <button id="replay-back-btn" class="btn secondary" title="Step back">⏪</button>
+              <button id="replay-play-btn" class="btn primary">▶ Play</button>
+              <button id="replay-forward-btn" class="btn secondary" title="Step forward">⏩</button>
+              <button id="replay-end-btn" class="btn secondary" title="Jump to end">⏭</button>
+            </div>
+            <input type="range" id="replay-scrubber" class="replay-scrubber" min="0" max="0" value="0">
+          </div>
+        </div>
+
         <!-- Result Modal -->
         <div id="result-modal" class="modal">
           <div class="modal-content">
             <h2 id="result-title"></h2>
             <div id="result-details"></div>
             <div id="revealed-dice"></div>
+            <div id="dice-verification" class="dice-verification" style="display: none;"></div>
             <button id="continue-btn" class="btn primary">Continue</button>
           </div>
         </div>
@@ -313,6 +603,7 @@ export class UIManager {
           <div class="modal-content">
             <h2>🏆 Game Over!</h2>
             <p id="winner-text"></p>
+            <button id="watch-replay-btn" class="btn secondary">🎬 Watch Replay</button>
             <button id="new-game-btn" class="btn primary">New Game</button>
           </div>
         </div>
@@ -468,6 +759,19 @@ export class UIManager {
       this.onMakeBid?.(quantity, faceValue);
     });
 
+    // Odds overlay
+    const oddsToggle = document.getElementById('odds-toggle') as HTMLInputElement | null;
+    if (oddsToggle) {
+      oddsToggle.checked = this.showOdds;
+      oddsToggle.addEventListener('change', () => {
+        this.showOdds = oddsToggle.checked;
+        localStorage.setItem('perudo_show_odds', String(this.showOdds));
+        this.updateOddsOverlay();
+      });
+    }
+    document.getElementById('bid-quantity')?.addEventListener('input', () => this.updateOddsOverlay());
+    document.getElementById('bid-face')?.addEventListener('change', () => this.updateOddsOverlay());
+
     // Call Dudo
     document.getElementById('dudo-btn')?.addEventListener('click', () => {
       this.onCallDudo?.();
@@ -478,10 +782,42 @@ export class UIManager {
       this.onCallJonti?.();
     });
 
+    // Call Calza
+    document.getElementById('calza-btn')?.addEventListener('click', () => {
+      this.onCallCalza?.();
+    });
+
     // Continue after result
     document.getElementById('continue-btn')?.addEventListener('click', () => {
       this.hideModal('result-modal');
-      this.onReadyForRound?.();
+      if (!this.isSpectator) {
+        this.onReadyForRound?.();
+      }
+    });
+
+    // Replay viewer
+    document.getElementById('watch-replay-btn')?.addEventListener('click', () => {
+      this.onWatchReplay?.();
+    });
+    document.getElementById('replay-close-btn')?.addEventListener('click', () => this.closeReplay());
+    document.getElementById('replay-start-btn')?.addEventListener('click', () => this.seekReplayTo(0));
+    document.getElementById('replay-back-btn')?.addEventListener('click', () => {
+      if (this.replay) this.seekReplayTo(this.replay.step - 1);
+    });
+    document.getElementById('replay-forward-btn')?.addEventListener('click', () => {
+      if (this.replay) this.seekReplayTo(this.replay.step + 1);
+    });
+    document.getElementById('replay-end-btn')?.addEventListener('click', () => {
+      if (this.replay) this.seekReplayTo(getReplayLength(this.replay));
+    });
+    document.getElementById('replay-play-btn')?.addEventListener('click', () => this.toggleReplayPlayback());
+    document.getElementById('replay-scrubber')?.addEventListener('input', (e) => {
+      this.seekReplayTo(parseInt((e.target as HTMLInputElement).value, 10));
+    });
+    document.getElementById('replay-viewer')?.addEventListener('change', (e) => {
+      const value = (e.target as HTMLSelectElement).value;
+      this.replayViewerId = value === 'all' ? null : value;
+      this.renderReplay();
     });
 
     // New game button
@@ -576,6 +912,18 @@ export class UIManager {
       const sessionName = (document.getElementById('session-name') as HTMLInputElement).value.trim();
       const mode = (document.getElementById('session-mode') as HTMLSelectElement).value as GameMode;
       const maxPlayers = parseInt((document.getElementById('session-max-players') as HTMLSelectElement).value, 10);
+      const enableCalza = (document.getElementById('session-calza') as HTMLSelectElement).value === 'on';
+      const enableLastStand = (document.getElementById('session-last-stand') as HTMLSelectElement).value === 'on';
+      const allowOddsOverlay = (document.getElementById('session-odds-overlay') as HTMLSelectElement).value === 'on';
+      const turnTimeLimit = parseInt((document.getElementById('session-turn-timer') as HTMLSelectElement).value, 10);
+      const turnTimeoutAction = (document.getElementById('session-timeout-action') as HTMLSelectElement).value as TurnTimeoutAction;
+      const timeBank = parseInt((document.getElementById('session-time-bank') as HTMLSelectElement).value, 10);
+      const timeBankIncrement = parseInt((document.getElementById('session-time-increment') as HTMLSelectElement).value, 10);
+      const disconnectGracePeriod = parseInt((document.getElementById('session-disconnect-grace') as HTMLSelectElement).value, 10);
+      const disconnectAction = (document.getElementById('session-disconnect-action') as HTMLSelectElement).value as DisconnectAction;
+      const disconnectForfeitTime = parseInt((document.getElementById('session-disconnect-forfeit') as HTMLSelectElement).value, 10);
+      const password = (document.getElementById('session-password') as HTMLInputElement).value;
+      const unlisted = (document.getElementById('session-unlisted') as HTMLSelectElement).value === 'on';
       const playerName = (document.getElementById('player-name') as HTMLInputElement)?.value.trim() || 'Host';
 
       if (!sessionName) {
@@ -584,7 +932,22 @@ export class UIManager {
       }
 
       this.hideModal('create-session-modal');
-      this.onCreateSession?.(sessionName, playerName, { mode, maxPlayers });
+      this.onCreateSession?.(sessionName, playerName, { mode, maxPlayers, enableCalza, enableLastStand, allowOddsOverlay, turnTimeLimit, turnTimeoutAction, timeBank, timeBankIncrement,
+        disconnectGracePeriod, disconnectAction, disconnectForfeitTime }, password || undefined, unlisted);
+    });
+
+    // Join by invite code
+    const joinByInviteCode = () => {
+      const input = document.getElementById('invite-code-input') as HTMLInputElement;
+      const inviteCode = input.value.trim().toUpperCase();
+      if (!inviteCode) return;
+      const playerName = (document.getElementById('player-name') as HTMLInputElement)?.value.trim() || 'Player';
+      input.value = '';
+      this.onJoinSession?.(inviteCode, playerName, false);
+    };
+    document.getElementById('join-invite-btn')?.addEventListener('click', joinByInviteCode);
+    document.getElementById('invite-code-input')?.addEventListener('keypress', (e) => {
+      if (e.key === 'Enter') joinByInviteCode();
     });
 
     // Leave Session (back to browser)
@@ -594,7 +957,7 @@ export class UIManager {
 
     // Host Settings - Game Mode
     document.getElementById('settings-game-mode')?.addEventListener('change', (e) => {
-      const mode = (e.target as HTMLSelectElement).value;
+      const mode = (e.target as HTMLSelectElement).value as GameMode;
       this.onUpdateSessionSettings?.({ mode });
     });
 
@@ -604,6 +967,66 @@ export class UIManager {
       this.onUpdateSessionSettings?.({ maxPlayers });
     });
 
+    // Host Settings - Calza
+    document.getElementById('settings-calza')?.addEventListener('change', (e) => {
+      const enableCalza = (e.target as HTMLSelectElement).value === 'on';
+      this.onUpdateSessionSettings?.({ enableCalza });
+    });
+
+    // Host Settings - Last Stand
+    document.getElementById('settings-last-stand')?.addEventListener('change', (e) => {
+      const enableLastStand = (e.target as HTMLSelectElement).value === 'on';
+      this.onUpdateSessionSettings?.({ enableLastStand });
+    });
+
+    // Host Settings - Odds Overlay
+    document.getElementById('settings-odds-overlay')?.addEventListener('change', (e) => {
+      const allowOddsOverlay = (e.target as HTMLSelectElement).value === 'on';
+      this.onUpdateSessionSettings?.({ allowOddsOverlay });
+    });
+
+    // Host Settings - Turn Timer
+    document.getElementById('settings-turn-timer')?.addEventListener('change', (e) => {
+      const turnTimeLimit = parseInt((e.target as HTMLSelectElement).value, 10);
+      this.onUpdateSessionSettings?.({ turnTimeLimit });
+    });
+
+    // Host Settings - Timeout Action
+    document.getElementById('settings-timeout-action')?.addEventListener('change', (e) => {
+      const turnTimeoutAction = (e.target as HTMLSelectElement).value as TurnTimeoutAction;
+      this.onUpdateSessionSettings?.({ turnTimeoutAction });
+    });
+
+    // Host Settings - Time Bank
+    document.getElementById('settings-time-bank')?.addEventListener('change', (e) => {
+      const timeBank = parseInt((e.target as HTMLSelectElement).value, 10);
+      this.onUpdateSessionSettings?.({ timeBank });
+    });
+
+    // Host Settings - Time Bank Increment
+    document.getElementById('settings-time-increment')?.addEventListener('change', (e) => {
+      const timeBankIncrement = parseInt((e.target as HTMLSelectElement).value, 10);
+      this.onUpdateSessionSettings?.({ timeBankIncrement });
+    });
+
+    // Host Settings - Reconnect Grace Period
+    document.getElementById('settings-disconnect-grace')?.addEventListener('change', (e) => {
+      const disconnectGracePeriod = parseInt((e.target as HTMLSelectElement).value, 10);
+      this.onUpdateSessionSettings?.({ disconnectGracePeriod });
+    });
+
+    // Host Settings - Disconnected Seat
+    document.getElementById('settings-disconnect-action')?.addEventListener('change', (e) => {
+      const disconnectAction = (e.target as HTMLSelectElement).value as DisconnectAction;
+      this.onUpdateSessionSettings?.({ disconnectAction });
+    });
+
+    // Host Settings - Disconnect Forfeit
+    document.getElementById('settings-disconnect-forfeit')?.addEventListener('change', (e) => {
+      const disconnectForfeitTime = parseInt((e.target as HTMLSelectElement).value, 10);
+      this.onUpdateSessionSettings?.({ disconnectForfeitTime });
+    });
+
     // Host Settings - Delete Session
     document.getElementById('delete-session-btn')?.addEventListener('click', () => {
       if (confirm('Are you sure you want to delete this session? All players will be returned to the server browser.')) {
@@ -975,6 +1398,32 @@ export class UIManager {
         gap: 12px;
       }
 
+      .invite-code-join {
+        gap: 6px;
+      }
+
+      .invite-code-input {
+        width: 110px;
+        padding: 8px 10px;
+        border: 1px solid rgba(255, 255, 255, 0.2);
+        border-radius: 8px;
+        background: rgba(0, 0, 0, 0.3);
+        color: #fff;
+        font-family: monospace;
+        text-transform: uppercase;
+      }
+
+      .invite-code {
+        margin-top: 8px;
+        font-size: 0.9em;
+      }
+
+      .invite-code strong {
+        font-family: monospace;
+        color: #ffe66d;
+        letter-spacing: 2px;
+      }
+
       .session-list {
         flex: 1;
         overflow-y: auto;
@@ -1075,6 +1524,15 @@ export class UIManager {
         padding: 10px 24px;
       }
 
+      .session-actions {
+        display: flex;
+        gap: 8px;
+      }
+
+      .session-spectators {
+        color: #4ecdc4;
+      }
+
       .browser-footer {
         display: flex;
         justify-content: space-between;
@@ -1288,6 +1746,35 @@ export class UIManager {
         font-style: italic;
       }
 
+      .slot-bot-badge {
+        font-size: 0.85em;
+        color: #aaa;
+        text-transform: capitalize;
+      }
+
+      .bot-strategy {
+        padding: 3px 6px;
+        background: rgba(0, 0, 0, 0.3);
+        border: 1px solid rgba(255, 255, 255, 0.2);
+        border-radius: 4px;
+        color: white;
+        font-size: 0.85em;
+      }
+
+      .add-bot-btn {
+        padding: 4px 8px;
+        background: rgba(155, 89, 182, 0.3);
+        border: 1px solid rgba(155, 89, 182, 0.5);
+        border-radius: 4px;
+        color: white;
+        cursor: pointer;
+        font-size: 0.85em;
+      }
+
+      .add-bot-btn:hover {
+        background: rgba(155, 89, 182, 0.5);
+      }
+
       .slot-actions {
         display: flex;
         gap: 8px;
@@ -1354,6 +1841,20 @@ export class UIManager {
         background: #e74c3c;
       }
 
+      .make-host-btn {
+        padding: 4px 8px;
+        background: #b7950b;
+        border: none;
+        border-radius: 4px;
+        color: white;
+        cursor: pointer;
+        font-size: 0.8em;
+      }
+
+      .make-host-btn:hover {
+        background: #d4ac0d;
+      }
+
       .lobby-actions {
         margin-top: 16px;
         text-align: center;
@@ -1408,11 +1909,43 @@ export class UIManager {
         color: #4ecdc4;
       }
 
+      .round-modifier-banner {
+        padding: 4px 12px;
+        border-radius: 6px;
+        background: rgba(231, 76, 60, 0.25);
+        border: 1px solid #e74c3c;
+        color: #ffb3a7;
+        font-weight: bold;
+      }
+
       .turn-indicator {
         font-size: 1.1em;
         color: #ffe66d;
       }
 
+      .deck-info {
+        font-size: 0.95em;
+        color: #aaa;
+      }
+
+      .spectator-banner {
+        padding: 4px 10px;
+        border-radius: 4px;
+        background: rgba(78, 205, 196, 0.2);
+        color: #4ecdc4;
+        font-weight: bold;
+      }
+
+      /* Spectators only watch: hide everything that would send a game action */
+      #game-ui.spectating #private-panel,
+      #game-ui.spectating #bid-controls,
+      #game-ui.spectating #pause-btn,
+      #game-ui.spectating #resume-btn,
+      #game-ui.spectating #new-game-btn,
+      #game-ui.spectating .slot-select {
+        display: none !important;
+      }
+
       .top-bar-right {
         display: flex;
         align-items: center;
@@ -1511,6 +2044,7 @@ export class UIManager {
       }
 
       .player-status {
+        position: relative;
         padding: 8px;
         margin-bottom: 8px;
         background: rgba(255, 255, 255, 0.1);
@@ -1525,6 +2059,58 @@ export class UIManager {
         opacity: 0.5;
       }
 
+      .turn-timer {
+        position: absolute;
+        top: 8px;
+        right: 8px;
+        width: 32px;
+        height: 32px;
+        border-radius: 50%;
+        color: #ffe66d;
+        display: flex;
+        align-items: center;
+        justify-content: center;
+      }
+
+      .turn-timer.urgent {
+        color: #ff6b6b;
+      }
+
+      .player-away {
+        font-size: 0.8em;
+        color: #ffb86c;
+        margin-bottom: 4px;
+      }
+
+      .time-bank {
+        margin-left: 6px;
+        font-size: 0.85em;
+        font-weight: normal;
+        font-variant-numeric: tabular-nums;
+        color: #aaa;
+      }
+
+      .time-bank.running {
+        color: #ffe66d;
+      }
+
+      .time-bank.urgent {
+        color: #ff6b6b;
+      }
+
+      .turn-timer-seconds {
+        width: 24px;
+        height: 24px;
+        border-radius: 50%;
+        background: rgba(30, 30, 50, 0.95);
+        color: #fff;
+        font-size: 0.75em;
+        font-weight: bold;
+        display: flex;
+        align-items: center;
+        justify-content: center;
+      }
+
       .player-name {
         font-weight: bold;
         margin-bottom: 4px;
@@ -1631,6 +2217,42 @@ export class UIManager {
         padding: 16px;
       }
 
+      .bid-history {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 6px;
+        align-items: center;
+        margin-bottom: 10px;
+        font-size: 0.9em;
+      }
+
+      .bid-history:empty {
+        display: none;
+      }
+
+      .bid-history-title {
+        color: #aaa;
+        margin-right: 6px;
+      }
+
+      .bid-history-item {
+        display: inline-flex;
+        align-items: center;
+        gap: 6px;
+        padding: 4px 8px;
+        border-radius: 6px;
+        background: rgba(255, 255, 255, 0.08);
+      }
+
+      .bid-history-item.current {
+        border: 1px solid #4ecdc4;
+      }
+
+      .bid-history-item .late-dudo-btn {
+        padding: 2px 8px;
+        font-size: 0.85em;
+      }
+
       .bid-controls {
         display: flex;
         justify-content: space-between;
@@ -1653,18 +2275,81 @@ export class UIManager {
         width: 80px;
       }
 
-      .action-buttons {
-        display: flex;
-        gap: 12px;
+      .odds-overlay {
+        margin-bottom: 12px;
+        padding: 8px 12px;
+        border-radius: 8px;
+        background: rgba(0, 0, 0, 0.25);
+        font-size: 0.9em;
       }
 
-      .chat-panel {
-        position: absolute;
-        bottom: 10px;
-        right: 10px;
-        width: 600px;
-        height: 350px;
-        min-width: 200px;
+      .odds-toggle {
+        display: inline-flex;
+        align-items: center;
+        gap: 6px;
+        cursor: pointer;
+        color: #ccc;
+      }
+
+      .odds-details {
+        display: flex;
+        flex-direction: column;
+        gap: 4px;
+        margin-top: 6px;
+      }
+
+      .odds-details:empty {
+        display: none;
+      }
+
+      .odds-value {
+        font-weight: bold;
+      }
+
+      .odds-high {
+        color: #4ecdc4;
+      }
+
+      .odds-mid {
+        color: #ffe66d;
+      }
+
+      .odds-low {
+        color: #ff6b6b;
+      }
+
+      .odds-candidates {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 6px;
+      }
+
+      .odds-candidate {
+        padding: 4px 8px;
+        border: 1px solid rgba(255, 255, 255, 0.2);
+        border-radius: 6px;
+        background: rgba(255, 255, 255, 0.05);
+        color: #fff;
+        font-size: 0.9em;
+        cursor: pointer;
+      }
+
+      .odds-candidate:hover {
+        background: rgba(255, 255, 255, 0.15);
+      }
+
+      .action-buttons {
+        display: flex;
+        gap: 12px;
+      }
+
+      .chat-panel {
+        position: absolute;
+        bottom: 10px;
+        right: 10px;
+        width: 600px;
+        height: 350px;
+        min-width: 200px;
         min-height: 150px;
         max-width: 1600px;
         max-height: 80vh;
@@ -1824,6 +2509,190 @@ export class UIManager {
         justify-content: center;
       }
 
+      .dice-verification {
+        margin: 0 0 16px;
+        padding: 8px 12px;
+        border-radius: 8px;
+        font-size: 13px;
+      }
+
+      .dice-verification.verified {
+        background: rgba(46, 204, 113, 0.15);
+        border: 1px solid rgba(46, 204, 113, 0.5);
+        color: #2ecc71;
+      }
+
+      .dice-verification.unverified {
+        background: rgba(255, 255, 255, 0.08);
+        border: 1px solid rgba(255, 255, 255, 0.2);
+        color: #aaa;
+      }
+
+      #replay-screen.active {
+        display: block;
+      }
+
+      .replay-top-bar {
+        position: absolute;
+        top: 0;
+        left: 0;
+        right: 0;
+        height: 60px;
+        background: rgba(30, 30, 50, 0.9);
+        display: flex;
+        align-items: center;
+        gap: 24px;
+        padding: 0 24px;
+        border-bottom: 1px solid rgba(255, 255, 255, 0.1);
+      }
+
+      .replay-title {
+        font-size: 1.2em;
+        font-weight: bold;
+      }
+
+      .replay-step-info {
+        flex: 1;
+        color: #4ecdc4;
+      }
+
+      .replay-view-select {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+      }
+
+      .replay-view-select select {
+        padding: 6px 10px;
+        border-radius: 6px;
+        background: rgba(255, 255, 255, 0.1);
+        color: #fff;
+        border: 1px solid rgba(255, 255, 255, 0.2);
+      }
+
+      .replay-view-select option {
+        background: #1e1e32;
+      }
+
+      .replay-players {
+        position: absolute;
+        top: 70px;
+        right: 10px;
+        width: 280px;
+        background: rgba(30, 30, 50, 0.8);
+        border-radius: 12px;
+        padding: 12px;
+      }
+
+      .replay-player {
+        padding: 8px;
+        margin-bottom: 6px;
+        border-radius: 8px;
+        background: rgba(255, 255, 255, 0.05);
+      }
+
+      .replay-player.current-turn {
+        border: 1px solid #4ecdc4;
+      }
+
+      .replay-player.eliminated {
+        opacity: 0.5;
+      }
+
+      .replay-player-name {
+        font-weight: bold;
+      }
+
+      .replay-player-details {
+        font-size: 0.85em;
+        color: #ccc;
+      }
+
+      .replay-bids-panel {
+        position: absolute;
+        top: 70px;
+        left: 10px;
+        width: 220px;
+        max-height: calc(100% - 220px);
+        display: flex;
+        flex-direction: column;
+        background: rgba(30, 30, 50, 0.8);
+        border-radius: 12px;
+        padding: 12px;
+      }
+
+      .replay-bids-panel h3 {
+        margin-bottom: 8px;
+      }
+
+      .replay-bids {
+        overflow-y: auto;
+      }
+
+      .replay-bid {
+        padding: 4px 8px;
+        margin-bottom: 4px;
+        border-radius: 6px;
+        font-size: 0.9em;
+        color: #888;
+        cursor: pointer;
+      }
+
+      .replay-bid.played {
+        color: #fff;
+        background: rgba(255, 255, 255, 0.05);
+      }
+
+      .replay-bid.current {
+        color: #fff;
+        border: 1px solid #4ecdc4;
+      }
+
+      .replay-bid-round {
+        color: #4ecdc4;
+        margin-right: 4px;
+      }
+
+      .replay-bid-empty {
+        color: #888;
+      }
+
+      .replay-controls {
+        position: absolute;
+        bottom: 20px;
+        left: 50%;
+        transform: translateX(-50%);
+        width: min(700px, calc(100% - 40px));
+        background: rgba(30, 30, 50, 0.9);
+        border-radius: 12px;
+        padding: 12px 16px;
+        display: flex;
+        flex-direction: column;
+        gap: 10px;
+      }
+
+      .replay-action {
+        text-align: center;
+        min-height: 1.2em;
+      }
+
+      .replay-buttons {
+        display: flex;
+        justify-content: center;
+        gap: 8px;
+      }
+
+      .replay-scrubber {
+        width: 100%;
+      }
+
+      .dice-verification.mismatch {
+        background: rgba(231, 76, 60, 0.2);
+        border: 1px solid rgba(231, 76, 60, 0.7);
+        color: #e74c3c;
+        font-weight: bold;
+      }
+
       .mini-die {
         width: 30px;
         height: 30px;
@@ -2504,9 +3373,32 @@ export class UIManager {
     }
   }
 
-  public updateSessionSettings(settings: { mode: string; maxPlayers: number }): void {
+  public setSpectator(isSpectator: boolean): void {
+    this.isSpectator = isSpectator;
+    document.getElementById('game-ui')?.classList.toggle('spectating', isSpectator);
+    const banner = document.getElementById('spectator-banner');
+    if (banner) {
+      banner.style.display = isSpectator ? 'block' : 'none';
+    }
+    const waitingText = document.querySelector('.waiting-text') as HTMLElement;
+    if (waitingText) {
+      waitingText.textContent = isSpectator ? 'Spectating - waiting for host to start...' : 'Waiting for host to start...';
+    }
+  }
+
+  public updateSessionSettings(settings: GameSettings): void {
     const gameModeSelect = document.getElementById('settings-game-mode') as HTMLSelectElement;
     const maxPlayersSelect = document.getElementById('settings-max-players') as HTMLSelectElement;
+    const calzaSelect = document.getElementById('settings-calza') as HTMLSelectElement;
+    const lastStandSelect = document.getElementById('settings-last-stand') as HTMLSelectElement;
+    const oddsOverlaySelect = document.getElementById('settings-odds-overlay') as HTMLSelectElement;
+    const turnTimerSelect = document.getElementById('settings-turn-timer') as HTMLSelectElement;
+    const timeoutActionSelect = document.getElementById('settings-timeout-action') as HTMLSelectElement;
+    const timeBankSelect = document.getElementById('settings-time-bank') as HTMLSelectElement;
+    const timeIncrementSelect = document.getElementById('settings-time-increment') as HTMLSelectElement;
+    const disconnectGraceSelect = document.getElementById('settings-disconnect-grace') as HTMLSelectElement;
+    const disconnectActionSelect = document.getElementById('settings-disconnect-action') as HTMLSelectElement;
+    const disconnectForfeitSelect = document.getElementById('settings-disconnect-forfeit') as HTMLSelectElement;
     
     if (gameModeSelect && settings.mode) {
       gameModeSelect.value = settings.mode;
@@ -2514,9 +3406,45 @@ export class UIManager {
     if (maxPlayersSelect && settings.maxPlayers) {
       maxPlayersSelect.value = String(settings.maxPlayers);
     }
+    if (calzaSelect && settings.enableCalza !== undefined) {
+      calzaSelect.value = settings.enableCalza ? 'on' : 'off';
+    }
+    if (lastStandSelect && settings.enableLastStand !== undefined) {
+      lastStandSelect.value = settings.enableLastStand ? 'on' : 'off';
+    }
+    if (oddsOverlaySelect && settings.allowOddsOverlay !== undefined) {
+      oddsOverlaySelect.value = settings.allowOddsOverlay ? 'on' : 'off';
+    }
+    if (turnTimerSelect && settings.turnTimeLimit !== undefined) {
+      turnTimerSelect.value = String(settings.turnTimeLimit);
+    }
+    if (timeoutActionSelect && settings.turnTimeoutAction) {
+      timeoutActionSelect.value = settings.turnTimeoutAction;
+    }
+    if (timeBankSelect && settings.timeBank !== undefined) {
+      timeBankSelect.value = String(settings.timeBank);
+    }
+    if (timeIncrementSelect && settings.timeBankIncrement !== undefined) {
+      timeIncrementSelect.value = String(settings.timeBankIncrement);
+    }
+    if (disconnectGraceSelect && settings.disconnectGracePeriod !== undefined) {
+      disconnectGraceSelect.value = String(settings.disconnectGracePeriod);
+    }
+    if (disconnectActionSelect && settings.disconnectAction) {
+      disconnectActionSelect.value = settings.disconnectAction;
+    }
+    if (disconnectForfeitSelect && settings.disconnectForfeitTime !== undefined) {
+      disconnectForfeitSelect.value = String(settings.disconnectForfeitTime);
+    }
   }
 
   public showScreen(screenId: string): void {
+    // Keep the replay in front; the requested screen is shown when it closes
+    if (this.replay && screenId !== 'replay-screen') {
+      this.screenAfterReplay = screenId;
+      return;
+    }
+
     document.querySelectorAll('.screen').forEach(screen => {
       screen.classList.remove('active');
     });
@@ -2546,6 +3474,40 @@ export class UIManager {
     }
   }
 
+  public setInviteCode(inviteCode: string): void {
+    const codeEl = document.getElementById('invite-code');
+    if (codeEl) {
+      codeEl.innerHTML = `Invite code: <strong>${this.escapeHtml(inviteCode)}</strong>`;
+    }
+  }
+
+  /** Ask for a session password; null if the player cancelled */
+  public promptPassword(message: string): string | null {
+    const password = prompt(message);
+    return password ? password : null;
+  }
+
+  public setBotStrategies(strategies: BotStrategyInfo[]): void {
+    this.botStrategies = strategies;
+    if (strategies.length > 0 && !strategies.some(s => s.id === this.selectedBotStrategyId)) {
+      this.selectedBotStrategyId = strategies[0].id;
+    }
+    this.updatePlayersList();
+  }
+
+  /**
+   * The IP when the server shares it with us, otherwise the host gets the player's
+   * pseudonymous fingerprint to tell players apart
+   */
+  private getPlayerIdentityText(player: PublicPlayerInfo): string {
+    if (player.ip) return player.ip;
+    return this.isHost && player.fingerprint ? `#${player.fingerprint}` : '';
+  }
+
+  private getBotStrategyName(strategyId: string): string {
+    return this.botStrategies.find(s => s.id === strategyId)?.name ?? strategyId;
+  }
+
   public setBrowserPlayerName(playerName: string): void {
     const nameEl = document.getElementById('browser-player-name');
     if (nameEl) {
@@ -2580,19 +3542,27 @@ export class UIManager {
       return `
         <div class="session-item ${isPrevious ? 'previous-session' : ''}" data-session-id="${session.id}">
           <div class="session-info">
-            <div class="session-name">${this.escapeHtml(session.name)}</div>
+            <div class="session-name">${session.hasPassword ? '🔒 ' : ''}${this.escapeHtml(session.name)}</div>
             <div class="session-details">
               <span class="session-host">👑 ${this.escapeHtml(session.hostName)}</span>
               <span class="session-players">👥 ${session.playerCount}/${session.maxPlayers}</span>
+              ${session.spectatorCount > 0 ? `<span class="session-spectators">👁️ ${session.spectatorCount}</span>` : ''}
               <span class="session-mode">${session.mode}</span>
               <span class="session-phase ${phaseClass}">${phaseText}</span>
             </div>
           </div>
-          <button class="btn ${isPrevious ? 'warning' : 'primary'} session-join-btn" 
-                  data-session-id="${session.id}"
-                  ${isFull && !isPrevious ? 'disabled' : ''}>
-            ${isPrevious ? 'Rejoin' : isFull ? 'Full' : 'Join'}
-          </button>
+          <div class="session-actions">
+            <button class="btn secondary session-join-btn session-watch-btn" data-session-id="${session.id}"
+                    data-needs-password="${session.hasPassword && !isPrevious}">
+              Watch
+            </button>
+            <button class="btn ${isPrevious ? 'warning' : 'primary'} session-join-btn" 
+                    data-session-id="${session.id}"
+                    data-needs-password="${session.hasPassword && !isPrevious}"
+                    ${isFull && !isPrevious ? 'disabled' : ''}>
+              ${isPrevious ? 'Rejoin' : isFull ? 'Full' : 'Join'}
+            </button>
+          </div>
         </div>
       `;
     }).join('');
@@ -2600,10 +3570,17 @@ export class UIManager {
     // Attach click handlers to join buttons
     listEl.querySelectorAll('.session-join-btn').forEach(btn => {
       btn.addEventListener('click', (e) => {
-        const sessionId = (e.target as HTMLElement).dataset.sessionId;
+        const target = e.target as HTMLElement;
+        const sessionId = target.dataset.sessionId;
         if (sessionId) {
           const playerName = (document.getElementById('player-name') as HTMLInputElement)?.value.trim() || 'Player';
-          this.onJoinSession?.(sessionId, playerName);
+          let password: string | undefined;
+          if (target.dataset.needsPassword === 'true') {
+            const entered = this.promptPassword('This session is password protected. Enter the password:');
+            if (!entered) return;
+            password = entered;
+          }
+          this.onJoinSession?.(sessionId, playerName, target.classList.contains('session-watch-btn'), password);
         }
       });
     });
@@ -2629,9 +3606,12 @@ export class UIManager {
     this.wasMyTurn = isMyTurn;
     
     this.gameState = state;
+    this.setClocks(state);
     this.updatePlayersList();
     this.updateTopBar();
     this.updateActionPanel();
+    this.updateBidHistory();
+    this.updateOddsOverlay();
   }
 
   private updatePlayersList(): void {
@@ -2659,8 +3639,12 @@ export class UIManager {
             <div class="slot-content">
               ${isOccupied ? `
                 <span class="slot-player-name ${playerInSlot.isHost ? 'host' : ''}">${playerInSlot.name}</span>
-                <span class="slot-player-ip">(${playerInSlot.ip})</span>
-                <span>${playerInSlot.isConnected ? '🟢' : '🔴'}</span>
+                ${playerInSlot.botStrategyId ? `
+                  <span class="slot-bot-badge">🤖 ${this.getBotStrategyName(playerInSlot.botStrategyId)}</span>
+                ` : `
+                  ${this.getPlayerIdentityText(playerInSlot) ? `<span class="slot-player-ip">(${this.getPlayerIdentityText(playerInSlot)})</span>` : ''}
+                  <span>${playerInSlot.isConnected ? '🟢' : '🔴'}</span>
+                `}
               ` : `
                 <span class="slot-empty-text">Open</span>
               `}
@@ -2672,6 +3656,17 @@ export class UIManager {
               ${isMySlot ? `
                 <button class="slot-select" data-slot="leave">Leave</button>
               ` : ''}
+              ${this.isHost && !isOccupied && this.botStrategies.length > 0 ? `
+                <select class="bot-strategy" data-slot="${i}">
+                  ${this.botStrategies.map(s => `
+                    <option value="${s.id}" title="${s.description}" ${s.id === this.selectedBotStrategyId ? 'selected' : ''}>${s.name}</option>
+                  `).join('')}
+                </select>
+                <button class="add-bot-btn" data-slot="${i}">🤖 Add Bot</button>
+              ` : ''}
+              ${this.isHost && isOccupied && playerInSlot.id !== this.playerId && !playerInSlot.botStrategyId && playerInSlot.isConnected ? `
+                <button class="make-host-btn" data-player-id="${playerInSlot.id}" title="Make host">👑</button>
+              ` : ''}
               ${this.isHost && isOccupied && playerInSlot.id !== this.playerId ? `
                 <button class="kick-btn" data-player-id="${playerInSlot.id}">Kick</button>
               ` : ''}
@@ -2693,7 +3688,31 @@ export class UIManager {
         });
       });
 
-      // Add kick button event listeners
+      // Add bot event listeners (host only); the chosen strategy sticks across re-renders
+      slotList.querySelectorAll('.bot-strategy').forEach(select => {
+        select.addEventListener('change', () => {
+          this.selectedBotStrategyId = (select as HTMLSelectElement).value;
+        });
+      });
+      slotList.querySelectorAll('.add-bot-btn').forEach(btn => {
+        btn.addEventListener('click', () => {
+          const slot = parseInt(btn.getAttribute('data-slot') || '', 10);
+          const strategySelect = slotList.querySelector(`.bot-strategy[data-slot="${slot}"]`) as HTMLSelectElement | null;
+          if (!isNaN(slot)) {
+            this.onAddBot?.(slot, strategySelect?.value || this.selectedBotStrategyId);
+          }
+        });
+      });
+
+      // Add host transfer and kick button event listeners
+      slotList.querySelectorAll('.make-host-btn').forEach(btn => {
+        btn.addEventListener('click', () => {
+          const playerId = btn.getAttribute('data-player-id');
+          if (playerId) {
+            this.onTransferHost?.(playerId);
+          }
+        });
+      });
       slotList.querySelectorAll('.kick-btn').forEach(btn => {
         btn.addEventListener('click', (e) => {
           const playerId = (e.target as HTMLElement).getAttribute('data-player-id');
@@ -2715,16 +3734,25 @@ export class UIManager {
           <div class="unassigned-item">
             <div>
               <span class="unassigned-name">${p.name}${p.isHost ? ' 👑' : ''}</span>
-              <span class="unassigned-ip">(${p.ip})</span>
+              ${this.getPlayerIdentityText(p) ? `<span class="unassigned-ip">(${this.getPlayerIdentityText(p)})</span>` : ''}
             </div>
             <div>
               <span>${p.isConnected ? '🟢' : '🔴'}</span>
+              ${this.isHost && p.id !== this.playerId && p.isConnected ? `<button class="make-host-btn" data-player-id="${p.id}" title="Make host">👑</button>` : ''}
               ${this.isHost && p.id !== this.playerId ? `<button class="kick-btn" data-player-id="${p.id}">Kick</button>` : ''}
             </div>
           </div>
         `).join('');
 
-        // Add kick button event listeners for unassigned list
+        // Add host transfer and kick button event listeners for unassigned list
+        unassignedList.querySelectorAll('.make-host-btn').forEach(btn => {
+          btn.addEventListener('click', () => {
+            const playerId = btn.getAttribute('data-player-id');
+            if (playerId) {
+              this.onTransferHost?.(playerId);
+            }
+          });
+        });
         unassignedList.querySelectorAll('.kick-btn').forEach(btn => {
           btn.addEventListener('click', (e) => {
             const playerId = (e.target as HTMLElement).getAttribute('data-player-id');
@@ -2744,18 +3772,90 @@ export class UIManager {
         <h3>Players</h3>
         ${this.gameState.players.map(p => `
           <div class="player-status ${p.id === currentPlayer?.id ? 'current-turn' : ''} ${p.isEliminated ? 'eliminated' : ''}">
-            <div class="player-name">${p.name} ${p.id === this.playerId ? '(You)' : ''}</div>
+            <div class="player-name">
+              ${p.name}${p.botStrategyId ? ' 🤖' : ''} ${p.id === this.playerId ? '(You)' : ''}
+              ${p.timeBank ? `<span class="time-bank ${p.timeBank.running ? 'running' : ''}" data-player-id="${p.id}"></span>` : ''}
+            </div>
+            ${!p.isConnected && !p.isEliminated ? `
+              <div class="player-away">${this.getAwayText(p)}</div>
+            ` : ''}
             <div class="player-stats">
               🎲 ${p.diceCount} dice | 🃏 ${p.cardCount} cards
             </div>
             ${this.renderActiveEffects(p.activeEffects)}
+            ${p.id === this.turnTimer?.playerId ? `
+              <div class="turn-timer"><span class="turn-timer-seconds"></span></div>
+            ` : ''}
           </div>
         `).join('')}
       `;
+      this.updateClocks();
+    }
+  }
+
+  /**
+   * Track the bidding clocks from the latest state; running ones keep ticking locally between updates
+   */
+  private setClocks(state: PublicGameState): void {
+    this.turnTimer = state.turnTimer;
+    this.clocksReceivedAt = Date.now();
+
+    const isRunning = (state.turnTimer !== null && state.turnTimer.deadline !== null) ||
+      state.players.some(p => p.timeBank?.running);
+    if (isRunning && !this.clockInterval) {
+      this.clockInterval = setInterval(() => this.updateClocks(), 250);
+    } else if (!isRunning && this.clockInterval) {
+      clearInterval(this.clockInterval);
+      this.clockInterval = null;
+    }
+  }
+
+  private updateClocks(): void {
+    const elapsedMs = Date.now() - this.clocksReceivedAt;
+
+    // Time banks next to each name
+    document.querySelectorAll('#players-panel .time-bank').forEach(el => {
+      const playerId = (el as HTMLElement).dataset.playerId;
+      const timeBank = this.gameState?.players.find(p => p.id === playerId)?.timeBank;
+      if (!timeBank) return;
+      const remainingMs = timeBank.running ? Math.max(0, timeBank.remainingMs - elapsedMs) : timeBank.remainingMs;
+      el.textContent = `⏳ ${this.formatClock(remainingMs)}`;
+      el.classList.toggle('urgent', remainingMs < 10000);
+    });
+
+    const ring = document.querySelector('#players-panel .turn-timer') as HTMLElement | null;
+    const timer = this.turnTimer;
+    if (!ring || !timer) return;
+
+    // Frozen at the remaining time while the game is paused
+    const remainingMs = timer.deadline !== null
+      ? Math.max(0, timer.remainingMs - elapsedMs)
+      : timer.remainingMs;
+    const fraction = timer.durationMs > 0 ? remainingMs / timer.durationMs : 0;
+    const seconds = Math.ceil(remainingMs / 1000);
+
+    ring.style.background = `conic-gradient(currentColor ${fraction * 360}deg, rgba(255, 255, 255, 0.15) 0deg)`;
+    ring.classList.toggle('urgent', seconds <= 5);
+    const label = ring.querySelector('.turn-timer-seconds');
+    if (label) label.textContent = String(seconds);
+  }
+
+  private getAwayText(player: PublicPlayerInfo): string {
+    switch (player.awayMode) {
+      case 'bot': return '🤖 Disconnected — a bot plays until they return';
+      case 'skip': return '⏭️ Disconnected — turns skipped until they return';
+      default: return '📡 Disconnected — waiting for them to reconnect';
     }
   }
 
-  private renderActiveEffects(effects: any): string {
+  private formatClock(ms: number): string {
+    const totalSeconds = Math.ceil(ms / 1000);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${minutes}:${String(seconds).padStart(2, '0')}`;
+  }
+
+  private renderActiveEffects(effects: ActiveEffects | undefined): string {
     if (!effects) return '';
     
     const activeEffectsList: string[] = [];
@@ -2780,20 +3880,43 @@ export class UIManager {
     const roundInfo = document.getElementById('round-info');
     const currentBid = document.getElementById('current-bid');
     const turnIndicator = document.getElementById('turn-indicator');
+    const modifierBanner = document.getElementById('round-modifier-banner');
+    const modifier = this.gameState.roundModifier;
+    const isLastStand = modifier?.type === 'last_stand';
 
     if (roundInfo) {
       roundInfo.textContent = `Round ${this.gameState.roundNumber}`;
     }
 
+    if (modifierBanner) {
+      if (isLastStand && modifier) {
+        const playerName = this.gameState.players.find(p => p.id === modifier.triggeredBy)?.name || 'Unknown';
+        const lockText = modifier.lockedFaceValue !== null
+          ? ` · Face locked to ${modifier.lockedFaceValue}s`
+          : ' · Opening bid locks the face';
+        modifierBanner.textContent = `🔥 Last Stand (${playerName}): 1s are not wild${lockText}`;
+        modifierBanner.style.display = 'block';
+      } else {
+        modifierBanner.style.display = 'none';
+      }
+    }
+
     if (currentBid) {
       if (this.gameState.currentBid) {
         const bid = this.gameState.currentBid;
-        currentBid.textContent = `Current Bid: ${bid.quantity}× ${bid.faceValue}${bid.faceValue === 1 ? ' (Wild)' : ''}s`;
+        currentBid.textContent = `Current Bid: ${bid.quantity}× ${bid.faceValue}${bid.faceValue === 1 && !isLastStand ? ' (Wild)' : ''}s`;
       } else {
         currentBid.textContent = 'No bid yet';
       }
     }
 
+    const deckInfo = document.getElementById('deck-info');
+    if (deckInfo) {
+      const usesCards = this.gameState.settings.mode !== 'classic';
+      deckInfo.style.display = usesCards ? 'block' : 'none';
+      deckInfo.textContent = `🃏 Deck ${this.gameState.deckCount} · Discard ${this.gameState.discardCount}`;
+    }
+
     if (turnIndicator) {
       const currentPlayer = this.gameState.players[this.gameState.currentTurnIndex];
       if (currentPlayer) {
@@ -2810,6 +3933,8 @@ export class UIManager {
     const bidBtn = document.getElementById('bid-btn') as HTMLButtonElement;
     const dudoBtn = document.getElementById('dudo-btn') as HTMLButtonElement;
     const jontiBtn = document.getElementById('jonti-btn') as HTMLButtonElement;
+    const calzaControl = document.getElementById('calza-control');
+    const calzaBtn = document.getElementById('calza-btn') as HTMLButtonElement;
     const pauseBtn = document.getElementById('pause-btn') as HTMLButtonElement;
 
     const currentPlayer = this.gameState.players[this.gameState.currentTurnIndex];
@@ -2830,6 +3955,18 @@ export class UIManager {
       jontiBtn.disabled = !isMyTurn || !canDudo || this.gameState.phase !== 'bidding' || isPaused;
     }
 
+    // Calza can be called by any active player except the bidder, even out of turn
+    const calzaEnabled = this.gameState.settings.enableCalza;
+    if (calzaControl) {
+      calzaControl.style.display = calzaEnabled ? 'inline-flex' : 'none';
+    }
+    if (calzaBtn) {
+      const me = this.gameState.players.find(p => p.id === this.playerId);
+      const amActive = !!me && !me.isEliminated && me.diceCount > 0;
+      const isOwnBid = this.gameState.currentBid?.playerId === this.playerId;
+      calzaBtn.disabled = !calzaEnabled || !amActive || !canDudo || isOwnBid || this.gameState.phase !== 'bidding' || isPaused;
+    }
+
     // Update pause button visibility and state
     if (pauseBtn) {
       // Show pause button only during active game phases
@@ -2857,10 +3994,153 @@ export class UIManager {
     }
   }
 
-  public updatePrivateInfo(dice: Die[], cards: Card[]): void {
-    this.privateInfo = { dice, cards };
+  /**
+   * Training overlay: chance the current bid, the bid being entered and each minimum raise are true
+   */
+  private updateOddsOverlay(): void {
+    const overlay = document.getElementById('odds-overlay');
+    const details = document.getElementById('odds-details');
+    if (!overlay || !details) return;
+
+    const state = this.gameState;
+    const me = state?.players.find(p => p.id === this.playerId);
+    const inRound = !!state && ['bidding', 'rolling', 'paused'].includes(state.phase);
+    if (!state || !state.settings.allowOddsOverlay || !me || me.isEliminated || !inRound) {
+      overlay.style.display = 'none';
+      return;
+    }
+    overlay.style.display = 'block';
+
+    if (!this.showOdds || !this.privateInfo || this.privateInfo.dice.length === 0) {
+      details.innerHTML = '';
+      return;
+    }
+
+    const onesWild = state.roundModifier?.type !== 'last_stand';
+    const table = calculateBidProbabilities({
+      myDice: this.privateInfo.dice,
+      opponents: state.players
+        .filter(p => p.id !== this.playerId && !p.isEliminated)
+        .map(p => ({ diceCount: p.diceCount })),
+      onesWild,
+      mode: state.settings.mode
+    });
+
+    const rows: string[] = [];
+    const currentBid = state.currentBid;
+    if (currentBid) {
+      rows.push(`
+        <div class="odds-row">
+          Current bid ${currentBid.quantity}× ${currentBid.faceValue}s:
+          ${this.formatOdds(getBidSuccessProbability(table, currentBid.quantity, currentBid.faceValue))} true ·
+          ${this.formatOdds(getExactBidProbability(table, currentBid.quantity, currentBid.faceValue))} exact
+        </div>
+      `);
+    }
+
+    const quantity = parseInt((document.getElementById('bid-quantity') as HTMLInputElement | null)?.value || '', 10);
+    const faceValue = parseInt((document.getElementById('bid-face') as HTMLSelectElement | null)?.value || '', 10);
+    if (quantity > 0 && isValidFaceValue(faceValue)) {
+      rows.push(`
+        <div class="odds-row">
+          Your bid ${quantity}× ${faceValue}s: ${this.formatOdds(getBidSuccessProbability(table, quantity, faceValue))} true
+        </div>
+      `);
+    }
+
+    rows.push(`<div class="odds-candidates">${this.renderOddsCandidates(table, me.diceCount, onesWild)}</div>`);
+    details.innerHTML = rows.join('');
+
+    details.querySelectorAll('.odds-candidate').forEach(el => {
+      el.addEventListener('click', () => {
+        const { quantity: candidateQuantity, face } = (el as HTMLElement).dataset;
+        const quantityInput = document.getElementById('bid-quantity') as HTMLInputElement | null;
+        const faceSelect = document.getElementById('bid-face') as HTMLSelectElement | null;
+        if (quantityInput && faceSelect && candidateQuantity && face) {
+          quantityInput.value = candidateQuantity;
+          faceSelect.value = face;
+          this.updateOddsOverlay();
+        }
+      });
+    });
+  }
+
+  /**
+   * The smallest legal raise for each face, with its chance of being true
+   */
+  private renderOddsCandidates(table: BidProbabilityTable, myDiceCount: number, onesWild: boolean): string {
+    const currentBid = this.gameState?.currentBid ?? null;
+
+    // During Last Stand only players down to one die may change the locked face
+    const lockedFace = this.gameState?.roundModifier?.lockedFaceValue ?? null;
+    const faces = [1, 2, 3, 4, 5, 6].filter(face => lockedFace === null || myDiceCount === 1 || face === lockedFace);
+
+    return faces.map(face => {
+      const quantity = getMinimumBidQuantity(currentBid, face, onesWild);
+      return `
+        <button class="odds-candidate" data-quantity="${quantity}" data-face="${face}" title="Use this bid">
+          ${quantity}× ${face}s ${this.formatOdds(getBidSuccessProbability(table, quantity, face))}
+        </button>
+      `;
+    }).join('');
+  }
+
+  private formatOdds(probability: number): string {
+    const level = probability >= 0.5 ? 'high' : probability >= 0.25 ? 'mid' : 'low';
+    return `<span class="odds-value odds-${level}">${Math.round(probability * 100)}%</span>`;
+  }
+
+  private updateBidHistory(): void {
+    if (!this.gameState) return;
+
+    const historyEl = document.getElementById('bid-history');
+    if (!historyEl) return;
+
+    const { previousBids, currentBid } = this.gameState;
+    if (!currentBid) {
+      historyEl.innerHTML = '';
+      return;
+    }
+
+    const me = this.gameState.players.find(p => p.id === this.playerId);
+    const currentPlayer = this.gameState.players[this.gameState.currentTurnIndex];
+    const canLateDudo = !!me?.activeEffects?.lateDudo &&
+      currentPlayer?.id === this.playerId &&
+      this.gameState.phase === 'bidding';
+
+    const renderBid = (bid: Bid, index: number | null) => {
+      const bidderName = this.gameState?.players.find(p => p.id === bid.playerId)?.name || 'Unknown';
+      return `
+        <div class="bid-history-item ${index === null ? 'current' : ''}">
+          <span class="bid-history-text">${this.escapeHtml(bidderName)}: ${bid.quantity}× ${bid.faceValue}s</span>
+          ${canLateDudo && index !== null ? `
+            <button class="btn danger late-dudo-btn" data-bid-index="${index}">Dudo</button>
+          ` : ''}
+        </div>
+      `;
+    };
+
+    historyEl.innerHTML = `
+      <div class="bid-history-title">Bids this round${canLateDudo ? ' — ⏰ pick one to challenge' : ''}</div>
+      ${previousBids.map((bid, i) => renderBid(bid, i)).join('')}
+      ${renderBid(currentBid, null)}
+    `;
+
+    historyEl.querySelectorAll('.late-dudo-btn').forEach(btn => {
+      btn.addEventListener('click', (e) => {
+        const indexStr = (e.target as HTMLElement).getAttribute('data-bid-index');
+        if (indexStr !== null) {
+          this.onCallDudo?.(parseInt(indexStr, 10));
+        }
+      });
+    });
+  }
+
+  public updatePrivateInfo(dice: Die[], cards: Card[], playableCardIds: string[]): void {
+    this.privateInfo = { dice, cards, playableCardIds };
     this.renderPrivateDice();
     this.renderPrivateCards();
+    this.updateOddsOverlay();
   }
 
   private renderPrivateDice(): void {
@@ -2883,10 +4163,8 @@ export class UIManager {
     const container = document.getElementById('my-cards');
     if (!container) return;
 
-    const currentTiming = this.getCurrentCardTiming();
-    
     container.innerHTML = this.privateInfo.cards.map(card => {
-      const canPlay = this.canPlayCardNow(card, currentTiming);
+      const canPlay = this.canPlayCardNow(card);
       const timingLabel = this.getTimingLabel(card.timing);
       
       return `
@@ -2902,39 +4180,11 @@ export class UIManager {
     }).join('');
   }
 
-  private getCurrentCardTiming(): string {
-    if (!this.gameState) return 'none';
-    
-    const phase = this.gameState.phase;
-    const isMyTurn = this.gameState.players[this.gameState.currentTurnIndex]?.id === this.playerId;
-    
-    if (phase === 'bidding') {
-      if (isMyTurn) {
-        return 'on_turn';
-      } else {
-        return 'reaction';
-      }
-    } else if (phase === 'dudo_called') {
-      return 'on_dudo';
-    }
-    
-    return 'none';
-  }
-
-  private canPlayCardNow(card: Card, currentTiming: string): boolean {
-    if (currentTiming === 'none') return false;
-    if (card.timing === 'any') return true;
-    
-    // on_turn cards can only be played on your turn
-    if (card.timing === 'on_turn' && currentTiming === 'on_turn') return true;
-    
-    // reaction cards can be played when it's not your turn (reacting to others)
-    if (card.timing === 'reaction' && (currentTiming === 'reaction' || currentTiming === 'on_turn')) return true;
-    
-    // on_dudo cards can be played when dudo is called
-    if (card.timing === 'on_dudo' && currentTiming === 'on_dudo') return true;
-    
-    return false;
+  private canPlayCardNow(card: Card): boolean {
+    // The server computes the playable set; it is refreshed whenever timing windows change.
+    // Results end the bidding phase before new private info arrives, so guard on phase too.
+    if (!this.gameState || !['bidding', 'dudo_called'].includes(this.gameState.phase)) return false;
+    return this.privateInfo?.playableCardIds.includes(card.id) || false;
   }
 
   private getTimingLabel(timing: string): string {
@@ -2949,6 +4199,7 @@ export class UIManager {
 
 
   public showDudoResult(result: DudoResult): void {
+    this.hideDiceVerification();
     const modal = document.getElementById('result-modal');
     const title = document.getElementById('result-title');
     const details = document.getElementById('result-details');
@@ -2960,9 +4211,10 @@ export class UIManager {
     const bidderName = this.gameState?.players.find(p => p.id === result.targetPlayerId)?.name || 'Unknown';
     const loserName = this.gameState?.players.find(p => p.id === result.loserId)?.name || 'Unknown';
 
+    const isLateDudo = result.targetBidIndex !== null;
     title.textContent = result.success ? '✅ Dudo Successful!' : '❌ Dudo Failed!';
     details.innerHTML = `
-      <p><strong>${callerName}</strong> called Dudo on <strong>${bidderName}</strong>'s bid</p>
+      <p><strong>${callerName}</strong> called ${isLateDudo ? 'Late Dudo' : 'Dudo'} on <strong>${bidderName}</strong>'s ${isLateDudo ? 'earlier ' : ''}bid</p>
       <p>Bid: ${result.bid.quantity}× ${result.bid.faceValue}s</p>
       <p>Actual count: <strong>${result.actualCount}</strong></p>
       <p><strong>${loserName}</strong> loses a die!</p>
@@ -2986,6 +4238,7 @@ export class UIManager {
   }
 
   public showJontiResult(result: JontiResult): void {
+    this.hideDiceVerification();
     const modal = document.getElementById('result-modal');
     const title = document.getElementById('result-title');
     const details = document.getElementById('result-details');
@@ -3032,6 +4285,385 @@ export class UIManager {
     this.showModal('result-modal');
   }
 
+  public showCalzaResult(result: CalzaResult): void {
+    this.hideDiceVerification();
+    const modal = document.getElementById('result-modal');
+    const title = document.getElementById('result-title');
+    const details = document.getElementById('result-details');
+    const revealedDice = document.getElementById('revealed-dice');
+
+    if (!modal || !title || !details || !revealedDice) return;
+
+    const callerName = this.gameState?.players.find(p => p.id === result.callerId)?.name || 'Unknown';
+
+    if (result.success) {
+      title.textContent = '🎯 Calza Successful!';
+      details.innerHTML = `
+        <p><strong>${callerName}</strong> called Calza!</p>
+        <p>Bid: ${result.bid.quantity}× ${result.bid.faceValue}s</p>
+        <p>Actual count: <strong>${result.actualCount}</strong></p>
+        <p>The bid was <strong>exactly correct!</strong></p>
+        <p><strong>${callerName}</strong> regains a die!</p>
+      `;
+    } else {
+      title.textContent = '❌ Calza Failed!';
+      details.innerHTML = `
+        <p><strong>${callerName}</strong> called Calza!</p>
+        <p>Bid: ${result.bid.quantity}× ${result.bid.faceValue}s</p>
+        <p>Actual count: <strong>${result.actualCount}</strong></p>
+        <p>The bid was <strong>not exactly correct!</strong></p>
+        <p><strong>${callerName}</strong> loses a die!</p>
+      `;
+    }
+
+    revealedDice.innerHTML = result.revealedDice.map(({ playerId, dice }) => {
+      const playerName = this.gameState?.players.find(p => p.id === playerId)?.name || 'Unknown';
+      return `
+        <div class="revealed-player">
+          <div class="revealed-player-name">${playerName}</div>
+          <div class="revealed-dice-row">
+            ${dice.map(die => `
+              <div class="mini-die die-${die.type}">${die.faceValue}</div>
+            `).join('')}
+          </div>
+        </div>
+      `;
+    }).join('');
+
+    this.showModal('result-modal');
+  }
+
+  /**
+   * Show a round ended by a bidder running out of time (the player forfeits a die)
+   */
+  public showForfeitResult(playerId: string, revealedDiceList: { playerId: string; dice: Die[] }[]): void {
+    this.hideDiceVerification();
+    const modal = document.getElementById('result-modal');
+    const title = document.getElementById('result-title');
+    const details = document.getElementById('result-details');
+    const revealedDice = document.getElementById('revealed-dice');
+
+    if (!modal || !title || !details || !revealedDice) return;
+
+    const playerName = this.gameState?.players.find(p => p.id === playerId)?.name || 'Unknown';
+    title.textContent = '⏱️ Out of Time!';
+    details.innerHTML = `
+      <p><strong>${playerName}</strong> ran out of time</p>
+      <p><strong>${playerName}</strong> forfeits a die!</p>
+    `;
+
+    revealedDice.innerHTML = revealedDiceList.map(({ playerId, dice }) => {
+      const name = this.gameState?.players.find(p => p.id === playerId)?.name || 'Unknown';
+      return `
+        <div class="revealed-player">
+          <div class="revealed-player-name">${name}</div>
+          <div class="revealed-dice-row">
+            ${dice.map(die => `
+              <div class="mini-die die-${die.type}">${die.faceValue}</div>
+            `).join('')}
+          </div>
+        </div>
+      `;
+    }).join('');
+
+    this.showModal('result-modal');
+  }
+
+  /**
+   * Show the outcome of checking the revealed dice against the round's commitments
+   */
+  public showDiceVerification(result: DiceVerificationResult): void {
+    const el = document.getElementById('dice-verification');
+    if (!el) return;
+
+    el.style.display = 'block';
+    el.classList.remove('verified', 'unverified', 'mismatch');
+    if (result.mismatchedPlayerIds.length > 0) {
+      const names = result.mismatchedPlayerIds
+        .map(id => this.gameState?.players.find(p => p.id === id)?.name || 'Unknown')
+        .join(', ');
+      el.classList.add('mismatch');
+      el.textContent = `⚠️ Dice commitment mismatch for ${names}! The revealed dice do not match what the server committed to.`;
+    } else if (result.verified) {
+      el.classList.add('verified');
+      el.textContent = `🔒 All ${result.checkedCount} dice commitments verified`;
+    } else {
+      el.classList.add('unverified');
+      el.textContent = 'No dice commitments were received for this round';
+    }
+  }
+
+  private hideDiceVerification(): void {
+    const el = document.getElementById('dice-verification');
+    if (el) el.style.display = 'none';
+  }
+
+  // ============================================
+  // Replay Viewer
+  // ============================================
+
+  /**
+   * Open the replay screen for a downloaded match, drawing its dice with the given renderer
+   */
+  public showReplay(record: MatchRecord, renderer: GameRenderer): void {
+    this.stopReplayPlayback();
+    this.replay = createMatchReplay(record);
+    this.replayRenderer = renderer;
+
+    // Default to what this player saw, if they took part
+    const participants = record.actions.filter(
+      (a): a is Extract<GameAction, { type: 'add_player' }> => a.type === 'add_player'
+    );
+    this.replayViewerId = participants.some(p => p.playerId === this.playerId) ? this.playerId : null;
+
+    const viewerSelect = document.getElementById('replay-viewer') as HTMLSelectElement | null;
+    if (viewerSelect) {
+      viewerSelect.innerHTML = `
+        <option value="all">👁 Omniscient (all dice)</option>
+        ${participants.map(p => `<option value="${p.playerId}">As seen by ${this.escapeHtml(p.playerName)}</option>`).join('')}
+      `;
+      viewerSelect.value = this.replayViewerId ?? 'all';
+    }
+
+    const scrubber = document.getElementById('replay-scrubber') as HTMLInputElement | null;
+    if (scrubber) {
+      scrubber.max = getReplayLength(this.replay).toString();
+    }
+
+    this.hideModal('gameover-modal');
+    const currentScreen = document.querySelector('.screen.active')?.id;
+    this.screenAfterReplay = currentScreen && currentScreen !== 'replay-screen' ? currentScreen : 'game-screen';
+    this.showScreen('replay-screen');
+
+    // Start at the first dealt round rather than the lobby setup
+    const firstRoll = record.actions.findIndex(a => a.type === 'start_game');
+    this.seekReplayTo(firstRoll + 1);
+  }
+
+  public closeReplay(): void {
+    if (!this.replay) return;
+    this.stopReplayPlayback();
+    this.replay = null;
+    this.replayRenderer?.clearAllDice();
+    this.replayRenderer = null;
+    this.showScreen(this.screenAfterReplay);
+    this.onReplayClosed?.();
+  }
+
+  public isReplayOpen(): boolean {
+    return this.replay !== null;
+  }
+
+  private seekReplayTo(step: number): void {
+    if (!this.replay) return;
+    this.replay = seekReplay(this.replay, step);
+    if (this.replay.step >= getReplayLength(this.replay)) {
+      this.stopReplayPlayback();
+    }
+    this.renderReplay();
+  }
+
+  private toggleReplayPlayback(): void {
+    if (!this.replay) return;
+    if (this.replayTimer) {
+      this.stopReplayPlayback();
+      return;
+    }
+
+    if (this.replay.step >= getReplayLength(this.replay)) {
+      this.seekReplayTo(0);
+    }
+    this.replayTimer = setInterval(() => {
+      if (this.replay) this.seekReplayTo(this.replay.step + 1);
+    }, 1200);
+    this.updateReplayPlayButton();
+  }
+
+  private stopReplayPlayback(): void {
+    if (this.replayTimer) {
+      clearInterval(this.replayTimer);
+      this.replayTimer = null;
+    }
+    this.updateReplayPlayButton();
+  }
+
+  private updateReplayPlayButton(): void {
+    const playBtn = document.getElementById('replay-play-btn');
+    if (playBtn) {
+      playBtn.textContent = this.replayTimer ? '⏸ Pause' : '▶ Play';
+    }
+  }
+
+  private renderReplay(): void {
+    const replay = this.replay;
+    const renderer = this.replayRenderer;
+    if (!replay || !renderer) return;
+
+    const state = getReplayState(replay);
+    const action = getReplayAction(replay);
+    const previousState = replay.states[Math.max(0, replay.step - 1)];
+    const playerIndexMap = new Map(state.players.map((p, index) => [p.id, index]));
+
+    // Draw the table: everyone's hand is shown at a showdown, otherwise only what the viewer could see
+    renderer.clearAllDice();
+    const isShowdown = action?.type === 'call_dudo' || action?.type === 'call_jonti' || action?.type === 'call_calza' ||
+      action?.type === 'forfeit_die';
+    if (isShowdown) {
+      const revealedDice = previousState.players
+        .filter(p => !p.isEliminated && p.dice.length > 0)
+        .map(p => ({ playerId: p.id, dice: p.dice }));
+      revealedDice.forEach(({ playerId, dice }) => {
+        const index = playerIndexMap.get(playerId);
+        if (index !== undefined) renderer.renderPlayerDice(dice, index);
+      });
+      renderer.revealAllDice(revealedDice, playerIndexMap);
+    } else {
+      state.players.forEach((player, index) => {
+        if (player.dice.length === 0) return;
+        if (this.replayViewerId === null || player.id === this.replayViewerId) {
+          renderer.renderPlayerDice(player.dice, index);
+        } else {
+          renderer.renderShadowDice(player.dice.length, index);
+        }
+      });
+    }
+
+    const stepInfo = document.getElementById('replay-step-info');
+    if (stepInfo) {
+      stepInfo.textContent = `Round ${state.roundNumber} · Step ${replay.step} / ${getReplayLength(replay)}`;
+    }
+
+    const actionEl = document.getElementById('replay-action');
+    if (actionEl) {
+      const bid = state.currentBid ? ` · Current bid: ${state.currentBid.quantity}× ${state.currentBid.faceValue}s` : '';
+      actionEl.textContent = (action ? this.describeReplayAction(action, previousState, state) : 'Lobby') + bid;
+    }
+
+    const scrubber = document.getElementById('replay-scrubber') as HTMLInputElement | null;
+    if (scrubber) {
+      scrubber.value = replay.step.toString();
+    }
+
+    this.renderReplayPlayers(state);
+    this.renderReplayBids(replay);
+  }
+
+  private renderReplayPlayers(state: GameState): void {
+    const playersEl = document.getElementById('replay-players');
+    if (!playersEl) return;
+
+    const currentPlayerId = ['bidding', 'rolling'].includes(state.phase)
+      ? state.players[state.currentTurnIndex]?.id
+      : null;
+    playersEl.innerHTML = state.players.map(player => {
+      const canSeeCards = this.replayViewerId === null || player.id === this.replayViewerId;
+      const cards = canSeeCards
+        ? this.escapeHtml(player.cards.map(c => c.name).join(', ')) || 'No cards'
+        : `${player.cards.length} card${player.cards.length === 1 ? '' : 's'}`;
+      return `
+        <div class="replay-player ${player.id === currentPlayerId ? 'current-turn' : ''} ${player.isEliminated ? 'eliminated' : ''}">
+          <div class="replay-player-name">${this.escapeHtml(player.name)}${state.winnerId === player.id ? ' 🏆' : ''}</div>
+          <div class="replay-player-details">🎲 ${player.dice.length} · 🃏 ${cards}</div>
+        </div>
+      `;
+    }).join('');
+  }
+
+  private renderReplayBids(replay: MatchReplay): void {
+    const bidsEl = document.getElementById('replay-bids');
+    if (!bidsEl) return;
+
+    const bids = replay.record.actions
+      .map((action, index) => ({ action, step: index + 1 }))
+      .filter(({ action }) => action.type === 'make_bid');
+
+    if (bids.length === 0) {
+      bidsEl.innerHTML = '<div class="replay-bid-empty">No bids</div>';
+      return;
+    }
+
+    bidsEl.innerHTML = bids.map(({ action, step }) => {
+      if (action.type !== 'make_bid') return '';
+      const stateAfter = replay.states[step];
+      const name = stateAfter.players.find(p => p.id === action.playerId)?.name || 'Unknown';
+      const status = step === replay.step ? 'current' : step < replay.step ? 'played' : '';
+      return `
+        <div class="replay-bid ${status}" data-step="${step}">
+          <span class="replay-bid-round">R${stateAfter.roundNumber}</span>
+          ${this.escapeHtml(name)}: ${action.quantity}× ${action.faceValue}s
+        </div>
+      `;
+    }).join('');
+
+    bidsEl.querySelectorAll('.replay-bid').forEach(el => {
+      el.addEventListener('click', () => {
+        this.seekReplayTo(parseInt((el as HTMLElement).dataset.step || '0', 10));
+      });
+    });
+    bidsEl.querySelector('.replay-bid.current')?.scrollIntoView({ block: 'nearest' });
+  }
+
+  private describeReplayAction(action: GameAction, before: GameState, after: GameState): string {
+    const nameOf = (playerId: string) =>
+      after.players.find(p => p.id === playerId)?.name ||
+      before.players.find(p => p.id === playerId)?.name ||
+      'Unknown';
+
+    // Who gained or lost dice when a call was settled
+    const diceChanges = () => after.players.map(player => {
+      const previousCount = before.players.find(p => p.id === player.id)?.dice.length ?? 0;
+      const change = player.dice.length - previousCount;
+      if (change < 0) return `${player.name} loses ${-change === 1 ? 'a die' : `${-change} dice`}`;
+      if (change > 0) return `${player.name} gains a die`;
+      return null;
+    }).filter(Boolean).join(', ') || 'no dice change';
+
+    switch (action.type) {
+      case 'add_player':
+        return `${action.playerName} joined`;
+      case 'remove_player':
+        return `${nameOf(action.playerId)} was removed`;
+      case 'set_connected':
+        return `${nameOf(action.playerId)} ${action.isConnected ? 'reconnected' : 'disconnected'}`;
+      case 'set_host':
+        return `${nameOf(action.playerId)} is now the host`;
+      case 'set_away':
+        return `${nameOf(action.playerId)} is away — ${action.awayMode === 'bot' ? 'a bot plays their seat' : 'their turns are skipped'}`;
+      case 'select_slot':
+        return `${nameOf(action.playerId)} ${action.slot === null ? 'left their seat' : `took seat ${action.slot + 1}`}`;
+      case 'update_settings':
+        return 'Settings changed';
+      case 'start_game':
+        return 'Game started — dice rolled';
+      case 'make_bid':
+        return `${nameOf(action.playerId)} bid ${action.quantity}× ${action.faceValue}s`;
+      case 'call_dudo':
+        return `${nameOf(action.playerId)} called ${action.targetBidIndex !== null ? 'Late Dudo' : 'Dudo'}! ${diceChanges()}`;
+      case 'call_jonti':
+        return `${nameOf(action.playerId)} called Jonti! ${diceChanges()}`;
+      case 'call_calza':
+        return `${nameOf(action.playerId)} called Calza! ${diceChanges()}`;
+      case 'forfeit_die':
+        return `${nameOf(action.playerId)} ran out of time and forfeits a die`;
+      case 'eliminate_player':
+        return `${nameOf(action.playerId)}'s time bank ran out — eliminated`;
+      case 'play_card':
+        {
+          const card = before.players.find(p => p.id === action.playerId)?.cards.find(c => c.id === action.card.cardId);
+          const canSeeTarget = this.replayViewerId === null || this.replayViewerId === action.playerId;
+          const target = canSeeTarget && action.card.targetPlayerId ? ` on ${nameOf(action.card.targetPlayerId)}` : '';
+          return `${nameOf(action.playerId)} played ${card?.name || 'a card'}${target}`;
+        }
+      case 'start_round':
+        return `Round ${after.roundNumber} started — dice rolled`;
+      case 'pause_game':
+        return 'Game paused';
+      case 'resume_game':
+        return 'Game resumed';
+      case 'new_game':
+        return 'Back to lobby';
+    }
+  }
 
   public showGameOver(winnerName: string): void {
     const winnerText = document.getElementById('winner-text');
@@ -3041,7 +4673,8 @@ export class UIManager {
     this.showModal('gameover-modal');
   }
 
-  public showCardResult(cardType: string, cardName: string, result: any): void {
+  public showCardResult(cardName: string, result: CardResult): void {
+    this.hideDiceVerification();
     const modal = document.getElementById('result-modal');
     const title = document.getElementById('result-title');
     const details = document.getElementById('result-details');
@@ -3054,7 +4687,7 @@ export class UIManager {
     let detailsHtml = '';
     let diceHtml = '';
 
-    switch (cardType) {
+    switch (result.cardType) {
       case 'peek':
         if (result.die) {
           detailsHtml = `
@@ -3079,7 +4712,7 @@ export class UIManager {
             <p>You gauged ${result.dieInfos.length} dice!</p>
             <p>You can see their sizes (types) but not their face values.</p>
           `;
-          diceHtml = result.dieInfos.map((info: any) => `
+          diceHtml = result.dieInfos.map(info => `
             <div class="revealed-player">
               <div class="revealed-player-name">${info.playerName}'s die</div>
               <div class="revealed-dice-row">
@@ -3258,23 +4891,21 @@ export class UIManager {
     if (!card) return;
 
     // Check if card can be played now
-    const currentTiming = this.getCurrentCardTiming();
-    if (!this.canPlayCardNow(card, currentTiming)) {
+    if (!this.canPlayCardNow(card)) {
       this.showCardTimingError(card);
       return;
     }
 
-    // Cards that need targeting
-    const needsTargetDie = ['reroll_one', 'polish'];
-    const needsTargetPlayerAndDie = ['crack', 'peek', 'blind_swap'];
-    const needsTwoDice = ['gauge'];
-    const needsFaceValue = ['wild_shift'];
-    const noTargetNeeded = ['inflation', 'insurance', 'double_dudo', 'late_dudo', 'phantom_bid', 'false_tell'];
-
-    if (noTargetNeeded.includes(card.type)) {
-      // Play immediately without targeting
-      this.onPlayCard?.(cardId);
-      return;
+    // Cards that play immediately without targeting
+    switch (card.type) {
+      case 'inflation':
+      case 'insurance':
+      case 'double_dudo':
+      case 'late_dudo':
+      case 'phantom_bid':
+      case 'false_tell':
+        this.onPlayCard?.(cardId, { cardType: card.type });
+        return;
     }
 
     // Store the pending card and show targeting UI
@@ -3283,17 +4914,22 @@ export class UIManager {
     this.selectedTargetDieId = null;
     this.selectedDieIds = [];
 
-    if (needsTargetDie.includes(card.type)) {
-      this.showDieTargetingUI(card, 'own');
-    } else if (needsTargetPlayerAndDie.includes(card.type)) {
-      this.showPlayerDieTargetingUI(card);
-    } else if (needsTwoDice.includes(card.type)) {
-      this.showMultiDieTargetingUI(card, 2);
-    } else if (needsFaceValue.includes(card.type)) {
-      this.showFaceValueTargetingUI(card);
-    } else {
-      // Unknown card type, try to play without target
-      this.onPlayCard?.(cardId);
+    switch (card.type) {
+      case 'reroll_one':
+      case 'polish':
+        this.showDieTargetingUI(card, 'own');
+        break;
+      case 'crack':
+      case 'peek':
+      case 'blind_swap':
+        this.showPlayerDieTargetingUI(card);
+        break;
+      case 'gauge':
+        this.showMultiDieTargetingUI(card, 2);
+        break;
+      case 'wild_shift':
+        this.showFaceValueTargetingUI(card);
+        break;
     }
   }
 
@@ -3307,7 +4943,7 @@ export class UIManager {
         message = `"${card.name}" can only be played as a reaction during bidding.`;
         break;
       case 'on_dudo':
-        message = `"${card.name}" can only be played when Dudo is called.`;
+        message = `"${card.name}" can only be played on your turn, before calling Dudo on a bid.`;
         break;
       default:
         message = `"${card.name}" cannot be played right now.`;
@@ -3562,9 +5198,7 @@ export class UIManager {
     const cardId = this.pendingCard.id;
     const cardType = this.pendingCard.type;
 
-    let targetPlayerId: string | undefined;
-    let targetDieId: string | undefined;
-    let additionalData: any;
+    let input: CardInput;
 
     switch (cardType) {
       case 'reroll_one':
@@ -3573,7 +5207,7 @@ export class UIManager {
           alert('Please select a die');
           return;
         }
-        targetDieId = this.selectedTargetDieId;
+        input = { cardType, targetDieId: this.selectedTargetDieId };
         break;
 
       case 'crack':
@@ -3582,14 +5216,12 @@ export class UIManager {
           alert('Please select a target player and die');
           return;
         }
-        targetPlayerId = this.selectedTargetPlayerId;
         // For opponent dice, we need to send the index and let server resolve
         if (this.selectedTargetDieId.startsWith('opponent-')) {
           const parts = this.selectedTargetDieId.split('-');
-          additionalData = { dieIndex: parseInt(parts[parts.length - 1]) };
-          targetDieId = undefined; // Will be resolved server-side
+          input = { cardType, targetPlayerId: this.selectedTargetPlayerId, additionalData: { dieIndex: parseInt(parts[parts.length - 1]) } };
         } else {
-          targetDieId = this.selectedTargetDieId;
+          input = { cardType, targetPlayerId: this.selectedTargetPlayerId, targetDieId: this.selectedTargetDieId };
         }
         break;
 
@@ -3598,8 +5230,7 @@ export class UIManager {
           alert('Please select your die and a target player');
           return;
         }
-        targetPlayerId = this.selectedTargetPlayerId;
-        targetDieId = this.selectedTargetDieId;
+        input = { cardType, targetPlayerId: this.selectedTargetPlayerId, targetDieId: this.selectedTargetDieId };
         break;
 
       case 'gauge':
@@ -3607,7 +5238,7 @@ export class UIManager {
           alert('Please select exactly 2 dice');
           return;
         }
-        additionalData = { dieIds: this.selectedDieIds };
+        input = { cardType, additionalData: { dieIds: [this.selectedDieIds[0], this.selectedDieIds[1]] } };
         break;
 
       case 'wild_shift':
@@ -3615,13 +5246,17 @@ export class UIManager {
           alert('Please select a face value');
           return;
         }
-        additionalData = { faceValue: parseInt(this.selectedTargetDieId.split('-')[1]) };
+        input = { cardType, additionalData: { faceValue: parseInt(this.selectedTargetDieId.split('-')[1]) } };
         break;
+
+      default:
+        // Untargeted cards are played straight from the hand
+        return;
     }
 
     this.hideModal('card-target-modal');
     this.pendingCard = null;
-    this.onPlayCard?.(cardId, targetPlayerId, targetDieId, additionalData);
+    this.onPlayCard?.(cardId, input);
   }
 }
 
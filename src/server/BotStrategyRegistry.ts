@@ -0,0 +1,106 @@
+// ============================================
+// Perudo+ Bot Strategy Registry
+// Built-in bot strategies plus any loaded from a directory
+// ============================================
+
+import fs from 'fs';
+import path from 'path';
+import { BotStrategyInfo } from '../shared/types';
+import { BotStrategy, BUILT_IN_BOT_STRATEGIES } from '../shared/bots';
+
+const STRATEGY_ID_PATTERN = /^[a-z0-9][a-z0-9_-]*$/i;
+
+export class BotStrategyRegistry {
+  private strategies: Map<string, BotStrategy> = new Map();
+
+  constructor(strategies: BotStrategy[] = BUILT_IN_BOT_STRATEGIES) {
+    for (const strategy of strategies) {
+      this.strategies.set(strategy.id, strategy);
+    }
+  }
+
+  /**
+   * Load every strategy module in a directory. A module exports one strategy or an array of
+   * them (as module.exports or the default export). Broken modules are skipped with a warning.
+   */
+  public loadDirectory(directory: string): number {
+    const resolved = path.resolve(directory);
+    if (!fs.existsSync(resolved) || !fs.statSync(resolved).isDirectory()) {
+      console.warn(`Bot strategy directory not found: ${resolved}`);
+      return 0;
+    }
+
+    // TypeScript strategies only load when the server itself runs under ts-node
+    const extensions = ['.js', '.cjs'];
+    if (require.extensions['.ts']) {
+      extensions.push('.ts');
+    }
+
+    let loaded = 0;
+    const files = fs.readdirSync(resolved)
+      .filter(file => extensions.includes(path.extname(file)) && !file.endsWith('.d.ts'))
+      .sort();
+
+    for (const file of files) {
+      try {
+        const exported = require(path.join(resolved, file));
+        const candidates = this.getExportedStrategies(exported);
+        if (candidates.length === 0) {
+          console.warn(`Bot strategy file ${file} exports no strategy`);
+        }
+        for (const candidate of candidates) {
+          if (this.register(candidate, file)) {
+            loaded++;
+          }
+        }
+      } catch (error: any) {
+        console.warn(`Failed to load bot strategy file ${file}: ${error.message}`);
+      }
+    }
+
+    return loaded;
+  }
+
+  public get(id: string): BotStrategy | undefined {
+    return this.strategies.get(id);
+  }
+
+  public list(): BotStrategyInfo[] {
+    return Array.from(this.strategies.values()).map(strategy => ({
+      id: strategy.id,
+      name: strategy.name,
+      description: strategy.description
+    }));
+  }
+
+  private getExportedStrategies(exported: unknown): unknown[] {
+    const defaultExport = typeof exported === 'object' && exported !== null && 'default' in exported ? exported.default : undefined;
+    const value = defaultExport ?? exported;
+    return Array.isArray(value) ? value : [value];
+  }
+
+  private register(candidate: unknown, file: string): boolean {
+    const strategy = candidate as Partial<BotStrategy> | null;
+    if (!strategy || typeof strategy.decide !== 'function') {
+      console.warn(`Skipping bot strategy in ${file}: missing decide()`);
+      return false;
+    }
+    if (typeof strategy.id !== 'string' || !STRATEGY_ID_PATTERN.test(strategy.id)) {
+      console.warn(`Skipping bot strategy in ${file}: invalid id`);
+      return false;
+    }
+    if (this.strategies.has(strategy.id)) {
+      console.warn(`Skipping bot strategy in ${file}: id "${strategy.id}" is already taken`);
+      return false;
+    }
+
+    this.strategies.set(strategy.id, {
+      id: strategy.id,
+      name: typeof strategy.name === 'string' && strategy.name ? strategy.name : strategy.id,
+      description: typeof strategy.description === 'string' ? strategy.description : '',
+      decide: strategy.decide.bind(strategy)
+    });
+    console.log(`Loaded bot strategy "${strategy.id}" from ${file}`);
+    return true;
+  }
+}
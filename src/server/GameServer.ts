@@ -17,7 +17,8 @@ import {
   PlayCardPayload,
   PrivateInfoPayload,
   Card,
-  Die
+  Die,
+  GaugedDie
 } from '../shared/types';
 import {
   createGameState,
@@ -33,9 +34,11 @@ import {
   applyJontiResult,
   startNewRound,
   toPublicGameState,
+  getPlayableCardsForPlayer,
   getCurrentPlayer,
   getActivePlayers,
   applyRerollOne,
+  applyBlindSwap,
   applyPolish,
   applyCrack,
   applyInflation,
@@ -216,7 +219,8 @@ export class GameServer {
             type: 'private_info',
             payload: {
               dice: existingPlayer.dice,
-              cards: existingPlayer.cards
+              cards: existingPlayer.cards,
+              playableCardIds: getPlayableCardsForPlayer(this.gameState, existingPlayer.id).map(c => c.id)
             }
           });
         }
@@ -269,7 +273,8 @@ export class GameServer {
           publicIp: this.publicIp,
           port: this.port,
           playerCount: this.gameState.players.length,
-          maxPlayers: this.gameState.settings.maxPlayers
+          maxPlayers: this.gameState.settings.maxPlayers,
+          botStrategies: [] // No bot seats on the legacy server
         }
       });
 
@@ -399,7 +404,7 @@ export class GameServer {
         type: 'bid_made',
         payload: {
           playerId: client.playerId,
-          bid: this.gameState.currentBid,
+          bid: this.gameState.currentBid!,
           gameState: toPublicGameState(this.gameState)
         }
       });
@@ -553,6 +558,13 @@ export class GameServer {
       return;
     }
 
+    // Enforce card timing and turn ownership server-side
+    const isPlayableNow = getPlayableCardsForPlayer(this.gameState, client.playerId).some(c => c.id === card.id);
+    if (!isPlayableNow) {
+      this.sendError(client.ws, `${card.name} cannot be played right now`, 'CARD_TIMING');
+      return;
+    }
+
     try {
       // Validate required parameters before applying card effects
       switch (card.type) {
@@ -601,7 +613,7 @@ export class GameServer {
               playerId: client.playerId,
               cardType: 'reroll_one',
               cardName: card.name,
-              result: { message: 'Die re-rolled! Check your dice for the new value.' }
+              result: { cardType: 'reroll_one', message: 'Die re-rolled! Check your dice for the new value.' }
             }
           });
           break;
@@ -614,7 +626,7 @@ export class GameServer {
               playerId: client.playerId,
               cardType: 'polish',
               cardName: card.name,
-              result: { message: 'Die upgraded! Check your dice for the new type.' }
+              result: { cardType: 'polish', message: 'Die upgraded! Check your dice for the new type.' }
             }
           });
           break;
@@ -638,7 +650,7 @@ export class GameServer {
                 playerId: client.playerId,
                 cardType: 'crack',
                 cardName: card.name,
-                result: { message: `Cracked ${crackedPlayerName}'s die! Their die has been downgraded.` }
+                result: { cardType: 'crack', message: `Cracked ${crackedPlayerName}'s die! Their die has been downgraded.` }
               }
             });
           }
@@ -652,14 +664,15 @@ export class GameServer {
               playerId: client.playerId,
               cardType: 'inflation',
               cardName: card.name,
-              result: { 
+              result: {
+                cardType: 'inflation',
                 message: `Bid inflated! The current bid is now ${this.gameState.currentBid?.quantity}× ${this.gameState.currentBid?.faceValue}s.`
               }
             }
           });
           break;
         case 'wild_shift':
-          this.gameState = applyWildShift(this.gameState, payload.additionalData.faceValue);
+          this.gameState = applyWildShift(this.gameState, payload.additionalData!.faceValue!);
           // Send result to player
           this.send(client.ws, {
             type: 'card_played',
@@ -667,7 +680,8 @@ export class GameServer {
               playerId: client.playerId,
               cardType: 'wild_shift',
               cardName: card.name,
-              result: { 
+              result: {
+                cardType: 'wild_shift',
                 message: `Bid shifted! The current bid is now ${this.gameState.currentBid?.quantity}× ${this.gameState.currentBid?.faceValue}s.`
               }
             }
@@ -688,7 +702,7 @@ export class GameServer {
                   playerId: client.playerId,
                   cardType: 'peek',
                   cardName: card.name,
-                  result: { die: targetDie }
+                  result: { cardType: 'peek', die: targetDie }
                 }
               });
             } else {
@@ -698,8 +712,8 @@ export class GameServer {
           break;
         case 'gauge':
           {
-            const dieInfos: { playerId: string; dieType: string; playerName: string }[] = [];
-            for (const dieKey of payload.additionalData.dieIds) {
+            const dieInfos: GaugedDie[] = [];
+            for (const dieKey of payload.additionalData!.dieIds!) {
               // dieKey format is "playerId-dieIndex" where playerId is a UUID with hyphens
               const parts = dieKey.split('-');
               const dieIndexStr = parts[parts.length - 1];
@@ -721,13 +735,13 @@ export class GameServer {
                 playerId: client.playerId,
                 cardType: 'gauge',
                 cardName: card.name,
-                result: { dieInfos }
+                result: { cardType: 'gauge', dieInfos }
               }
             });
           }
           break;
         case 'blind_swap':
-          this.gameState = this.applyBlindSwap(client.playerId, payload.targetDieId!, payload.targetPlayerId!);
+          this.gameState = applyBlindSwap(this.gameState, client.playerId, payload.targetDieId!, payload.targetPlayerId!);
           // Send result to player
           const swappedPlayerName = this.gameState.players.find(p => p.id === payload.targetPlayerId)?.name || 'opponent';
           this.send(client.ws, {
@@ -736,7 +750,7 @@ export class GameServer {
               playerId: client.playerId,
               cardType: 'blind_swap',
               cardName: card.name,
-              result: { message: `Swapped a die with ${swappedPlayerName}! Check your dice.` }
+              result: { cardType: 'blind_swap', message: `Swapped a die with ${swappedPlayerName}! Check your dice.` }
             }
           });
           break;
@@ -749,7 +763,7 @@ export class GameServer {
               playerId: client.playerId,
               cardType: 'insurance',
               cardName: card.name,
-              result: { message: 'Insurance activated! If your next Dudo fails, you won\'t lose a die.' }
+              result: { cardType: 'insurance', message: 'Insurance activated! If your next Dudo fails, you won\'t lose a die.' }
             }
           });
           break;
@@ -762,7 +776,7 @@ export class GameServer {
               playerId: client.playerId,
               cardType: 'double_dudo',
               cardName: card.name,
-              result: { message: 'Double Dudo activated! Your next Dudo has double stakes.' }
+              result: { cardType: 'double_dudo', message: 'Double Dudo activated! Your next Dudo has double stakes.' }
             }
           });
           break;
@@ -775,7 +789,7 @@ export class GameServer {
               playerId: client.playerId,
               cardType: 'late_dudo',
               cardName: card.name,
-              result: { message: 'Late Dudo activated! You can call Dudo on a previous bid.' }
+              result: { cardType: 'late_dudo', message: 'Late Dudo activated! You can call Dudo on a previous bid.' }
             }
           });
           break;
@@ -788,7 +802,7 @@ export class GameServer {
               playerId: client.playerId,
               cardType: 'phantom_bid',
               cardName: card.name,
-              result: { message: 'Phantom Bid activated! Your next bid can ignore normal increment rules.' }
+              result: { cardType: 'phantom_bid', message: 'Phantom Bid activated! Your next bid can ignore normal increment rules.' }
             }
           });
           break;
@@ -800,7 +814,7 @@ export class GameServer {
               playerId: client.playerId,
               cardType: 'false_tell',
               cardName: card.name,
-              result: { message: `${client.playerName} claims to have peeked at a die!` }
+              result: { cardType: 'false_tell', message: `${client.playerName} claims to have peeked at a die!` }
             }
           });
           // Don't broadcast again below
@@ -1033,7 +1047,8 @@ export class GameServer {
 
     const privateInfo: PrivateInfoPayload = {
       dice: player.dice,
-      cards: player.cards
+      cards: player.cards,
+      playableCardIds: getPlayableCardsForPlayer(this.gameState, playerId).map(c => c.id)
     };
 
     this.send(client.ws, {
@@ -1125,47 +1140,6 @@ export class GameServer {
     console.log('Server stopped');
   }
 
-  private applyBlindSwap(playerId: string, myDieId: string, targetPlayerId: string): GameState {
-    // Find a random die from the target player
-    const targetPlayer = this.gameState.players.find(p => p.id === targetPlayerId);
-    if (!targetPlayer || targetPlayer.dice.length === 0) {
-      throw new Error('Target player has no dice');
-    }
-    
-    const player = this.gameState.players.find(p => p.id === playerId);
-    if (!player) {
-      throw new Error('Player not found');
-    }
-    
-    const myDie = player.dice.find(d => d.id === myDieId);
-    if (!myDie) {
-      throw new Error('Die not found');
-    }
-    
-    // Pick a random die from target
-    const randomIndex = Math.floor(Math.random() * targetPlayer.dice.length);
-    const targetDie = targetPlayer.dice[randomIndex];
-    
-    // Swap the dice
-    const updatedPlayers = this.gameState.players.map(p => {
-      if (p.id === playerId) {
-        return {
-          ...p,
-          dice: p.dice.map(d => d.id === myDieId ? { ...targetDie, id: d.id } : d)
-        };
-      }
-      if (p.id === targetPlayerId) {
-        return {
-          ...p,
-          dice: p.dice.map((d, i) => i === randomIndex ? { ...myDie, id: d.id } : d)
-        };
-      }
-      return p;
-    });
-    
-    return { ...this.gameState, players: updatedPlayers };
-  }
-
   public getGameState(): GameState {
     return this.gameState;
   }
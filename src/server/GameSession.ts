@@ -4,6 +4,7 @@
 // ============================================
 
 import WebSocket from 'ws';
+import { createHmac, randomBytes, scryptSync, timingSafeEqual } from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
 import {
   GameState,
@@ -11,39 +12,97 @@ import {
   Player,
   ClientMessage,
   ServerMessage,
+  ServerMessageType,
   JoinGamePayload,
   MakeBidPayload,
+  CallDudoPayload,
   PlayCardPayload,
   PrivateInfoPayload,
+  SessionInfo,
+  DiceCommitment,
+  DiceReveal,
   Card,
-  SessionInfo
+  GameEvent,
+  NewGameEvent,
+  GetGameEventsPayload,
+  CardPlayedPrivateData,
+  CardResult,
+  GaugedDie,
+  PrivateEventDetail,
+  GameAction,
+  MatchRecord,
+  AddBotPayload,
+  TransferHostPayload,
+  UpdateSessionSettingsPayload,
+  SendChatPayload,
+  HostChangeReason,
+  TurnTimeoutAction,
+  TurnTimer,
+  PlayerTimeBank,
+  PublicGameState,
+  DisconnectAction,
+  IpVisibility,
+  PlayerNetworkInfo
 } from '../shared/types';
 import {
   createGameState,
   createPlayer,
   addPlayer,
   removePlayer,
+  updateGameSettings,
+  selectSlot,
+  setPlayerConnected,
   startGame,
   rollDiceForRound,
   makeBid,
-  callDudo,
+  resolveDudo,
   callJonti,
-  applyDudoResult,
+  callCalza,
   applyJontiResult,
+  applyCalzaResult,
   startNewRound,
   toPublicGameState,
-  applyRerollOne,
-  applyPolish,
-  applyCrack,
-  applyInflation,
-  applyWildShift,
-  removeCardFromHand,
+  getPlayableCardsForPlayer,
+  findTargetDie,
+  playCard,
   resetGame,
-  setActiveEffect,
   pauseGame,
-  resumeGame
+  resumeGame,
+  toPlayerGameEvent,
+  getCurrentPlayer,
+  getMinimumRaise,
+  forfeitDie,
+  eliminatePlayer,
+  setPlayerAway,
+  setHost
 } from '../shared/gameState';
-import { createDeck } from '../shared/cards';
+import { reconstructGameState } from '../shared/replay';
+import { createDiceCommitment } from '../shared/fairness';
+import {
+  BotKnowledge,
+  BotDecision,
+  BotObservation,
+  BotStrategy,
+  createBotObservation,
+  updateBotKnowledge,
+  getBotName,
+  isBotDecision,
+  getFallbackBotDecision,
+  BUILT_IN_BOT_STRATEGIES,
+  DEFAULT_BOT_STRATEGY_ID
+} from '../shared/bots';
+import { BotStrategyRegistry } from './BotStrategyRegistry';
+
+const SERVER_ACTOR_PREFIX = 'server:';
+const BOT_THINK_TIME_MS = 1500;
+const BOT_THINK_JITTER_MS = 1000;
+const HOST_MIGRATION_DELAY_MS = 30000;
+
+export interface SessionAccess {
+  inviteCode: string;
+  password: string | null;
+  unlisted: boolean;
+}
 
 export interface SessionClient {
   ws: WebSocket;
@@ -53,16 +112,94 @@ export interface SessionClient {
   ip: string;
 }
 
+interface SessionSpectator {
+  ws: WebSocket;
+  name: string;
+}
+
+/**
+ * Whoever a game handler is acting for: a connected client, or a seat the server moves for
+ * (a bot, or a player whose turn timed out) with no socket
+ */
+interface SessionActor {
+  ws: WebSocket | null;
+  playerId: string;
+  playerName: string;
+}
+
+interface SessionBot {
+  strategy: BotStrategy;
+  knowledge: BotKnowledge; // What its Peek and Gauge cards revealed this round
+  isStandIn: boolean;      // Playing a disconnected player's seat until they return
+}
+
+interface SessionAbsence {
+  awayMode: DisconnectAction | null; // null during the grace period
+  remainingMs: number | null;        // null when the wait is unlimited
+  deadline: number | null;           // null while frozen by a pause
+  timeout: ReturnType<typeof setTimeout> | null;
+}
+
+interface SessionTurnTimer {
+  key: string;             // Which turn the clock belongs to (round, bid count and bidder)
+  playerId: string;
+  durationMs: number;
+  remainingMs: number;     // Left when the clock was last started or frozen
+  deadline: number | null; // null while frozen by a pause
+  timeout: ReturnType<typeof setTimeout> | null;
+}
+
+interface SessionTimeBankClock {
+  key: string;       // Which turn is being charged (as for the turn timer)
+  playerId: string;
+  startedAt: number;
+  timeout: ReturnType<typeof setTimeout>;
+}
+
+function hashPassword(password: string): string {
+  const salt = randomBytes(16).toString('hex');
+  return `${salt}:${scryptSync(password, salt, 32).toString('hex')}`;
+}
+
+/**
+ * The same message with another game state in its payload
+ */
+function withGameState<K extends ServerMessageType>(message: ServerMessage<K>, gameState: PublicGameState): ServerMessage<K> {
+  return { ...message, payload: { ...message.payload, gameState } };
+}
+
 export class GameSession {
   public readonly id: string;
   public readonly name: string;
   public readonly createdAt: number;
+  public readonly inviteCode: string;
+  public readonly unlisted: boolean;
   
+  private passwordHash: string | null; // salt:hash, hex
+  private ipVisibility: IpVisibility;
+  private fingerprintKey: Buffer = randomBytes(16); // Fingerprints differ between sessions
   private gameState: GameState;
   private clients: Map<string, SessionClient> = new Map(); // clientId -> SessionClient
-  private deck: Card[] = [];
+  private spectators: Map<string, SessionSpectator> = new Map(); // clientId -> watcher without a seat
+  private diceCommitments: { commitment: DiceCommitment; reveal: DiceReveal }[] = []; // Current round, in order
+  private eventLog: GameEvent[] = [];
+  private gameNumber: number = 0;
+  private initialSettings: GameSettings;
+  private actionLog: GameAction[] = []; // Every state-changing input since the session was created
+  private matches: MatchRecord[] = [];
+  private currentMatch: MatchRecord | null = null;
+  private bots: Map<string, SessionBot> = new Map(); // playerId -> bot seat
+  private botTimer: ReturnType<typeof setTimeout> | null = null;
+  private turnTimer: SessionTurnTimer | null = null;
+  private timeBanks: Map<string, number> = new Map(); // playerId -> ms left, charged up to when the clock last stopped
+  private timeBankClock: SessionTimeBankClock | null = null;
+  private absences: Map<string, SessionAbsence> = new Map(); // playerId -> disconnected player being waited for
+  private connectedSince: Map<string, number> = new Map(); // playerId -> when they last joined or reconnected
+  private reconnectTokens: Map<string, string> = new Map(); // playerId -> secret that reclaims the seat
+  private hostMigrationTimer: ReturnType<typeof setTimeout> | null = null;
   private sendToClient: (ws: WebSocket, message: ServerMessage) => void;
   private onSessionUpdate: () => void;
+  private botStrategies: BotStrategyRegistry;
   private publicIp: string;
   private port: number;
 
@@ -70,19 +207,28 @@ export class GameSession {
     id: string,
     name: string,
     settings: GameSettings,
+    access: SessionAccess,
     sendToClient: (ws: WebSocket, message: ServerMessage) => void,
     onSessionUpdate: () => void,
     publicIp: string,
-    port: number
+    port: number,
+    botStrategies: BotStrategyRegistry = new BotStrategyRegistry(),
+    ipVisibility: IpVisibility = 'hidden'
   ) {
     this.id = id;
     this.name = name;
     this.createdAt = Date.now();
-    this.gameState = createGameState(settings);
+    this.inviteCode = access.inviteCode;
+    this.unlisted = access.unlisted;
+    this.passwordHash = access.password ? hashPassword(access.password) : null;
+    this.initialSettings = { ...settings };
+    this.gameState = createGameState({ ...settings });
     this.sendToClient = sendToClient;
     this.onSessionUpdate = onSessionUpdate;
     this.publicIp = publicIp;
     this.port = port;
+    this.botStrategies = botStrategies;
+    this.ipVisibility = ipVisibility;
   }
 
   public getSessionInfo(): SessionInfo {
@@ -95,10 +241,19 @@ export class GameSession {
       maxPlayers: this.gameState.settings.maxPlayers,
       phase: this.gameState.phase,
       mode: this.gameState.settings.mode,
+      spectatorCount: this.spectators.size,
+      hasPassword: this.passwordHash !== null,
       createdAt: this.createdAt
     };
   }
 
+  public checkPassword(password: string | undefined): boolean {
+    if (!this.passwordHash) return true;
+    if (!password) return false;
+    const [salt, hash] = this.passwordHash.split(':');
+    return timingSafeEqual(scryptSync(password, salt, 32), Buffer.from(hash, 'hex'));
+  }
+
   public getGameState(): GameState {
     return this.gameState;
   }
@@ -107,25 +262,49 @@ export class GameSession {
     return this.gameState.settings;
   }
 
-  public updateSettings(settings: { mode?: string; maxPlayers?: number }): void {
-    if (settings.mode) {
-      this.gameState.settings.mode = settings.mode as 'classic' | 'tactical' | 'chaos';
-    }
-    if (settings.maxPlayers !== undefined) {
-      const newMaxPlayers = settings.maxPlayers;
-      this.gameState.settings.maxPlayers = newMaxPlayers;
-      
-      // Unassign players from slots that no longer exist
-      this.gameState = {
-        ...this.gameState,
-        players: this.gameState.players.map(p => {
-          if (p.slot !== null && p.slot >= newMaxPlayers) {
-            return { ...p, slot: null };
-          }
-          return p;
-        })
-      };
-    }
+  /**
+   * Apply the host's settings changes (already checked against the bounds by message validation)
+   */
+  public updateSettings(settings: UpdateSessionSettingsPayload): void {
+    const changes: Partial<GameSettings> = { ...settings };
+    this.applyAction({ type: 'update_settings', settings: changes }, updateGameSettings(this.gameState, changes));
+    this.recordEvent({ type: 'settings_updated', settings: { ...this.gameState.settings } });
+  }
+
+  /**
+   * Recorded games of this session, oldest first
+   */
+  public getMatchRecords(): MatchRecord[] {
+    return this.matches;
+  }
+
+  /**
+   * A finished game of this session; games still in progress are not available for replay
+   */
+  public getMatchRecord(gameNumber: number): MatchRecord | null {
+    const record = this.matches.find(m => m.gameNumber === gameNumber && m.endedAt !== null);
+    if (!record) return null;
+    // Records are handed to anyone holding the password or a seat's token, so they never carry IPs
+    return {
+      ...record,
+      actions: record.actions.map(action => action.type === 'add_player' ? { ...action, ip: '' } : action)
+    };
+  }
+
+  /**
+   * Rebuild the current state from the recorded actions (for debugging and bug reports)
+   */
+  public reconstructGameState(): GameState {
+    return reconstructGameState(this.initialSettings, this.actionLog, this.actionLog.length, this.gameState.id);
+  }
+
+  /**
+   * Get the session's event log as a player is allowed to see it
+   */
+  public getGameEvents(playerId: string, sinceSeq: number = -1): GameEvent[] {
+    return this.eventLog
+      .filter(event => event.seq > sinceSeq)
+      .map(event => toPlayerGameEvent(event, playerId));
   }
 
   public isPlayerHost(clientId: string): boolean {
@@ -143,31 +322,75 @@ export class GameSession {
     return Array.from(this.clients.values()).some(c => c.odentityId === identityId);
   }
 
-  public hasDisconnectedPlayer(playerName: string): boolean {
-    return this.gameState.players.some(p => p.name === playerName && !p.isConnected);
+  /**
+   * Whether a reconnect token belongs to a seat that is waiting for its player
+   */
+  public canReconnect(reconnectToken: string | undefined): boolean {
+    return this.findReconnectingPlayer(reconnectToken) !== undefined;
+  }
+
+  /**
+   * Whether a reconnect token belongs to any seat at this table, connected or not
+   */
+  public hasSeatToken(reconnectToken: string | undefined): boolean {
+    return this.findTokenOwner(reconnectToken) !== undefined;
+  }
+
+  private findReconnectingPlayer(reconnectToken: string | undefined): Player | undefined {
+    const playerId = this.findTokenOwner(reconnectToken);
+    return this.gameState.players.find(p => p.id === playerId && !p.isConnected && p.botStrategyId === null);
+  }
+
+  private findTokenOwner(reconnectToken: string | undefined): string | undefined {
+    if (!reconnectToken) return undefined;
+    const attempt = Buffer.from(reconnectToken);
+    for (const [playerId, token] of this.reconnectTokens.entries()) {
+      const expected = Buffer.from(token);
+      if (attempt.length === expected.length && timingSafeEqual(attempt, expected)) {
+        return playerId;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Hand out a fresh secret for a seat; the previous one stops working
+   */
+  private issueReconnectToken(playerId: string): string {
+    const token = randomBytes(32).toString('hex');
+    this.reconnectTokens.set(playerId, token);
+    return token;
   }
 
   public handleMessage(clientId: string, ws: WebSocket, clientIp: string, identityId: string, message: ClientMessage): void {
     console.log(`[Session ${this.name}] Received message from ${clientId}:`, message.type);
 
+    if (this.spectators.has(clientId)) {
+      this.handleSpectatorMessage(clientId, message);
+      return;
+    }
+
     switch (message.type) {
       case 'join_game':
-        this.handleJoinGame(clientId, ws, clientIp, identityId, message.payload as JoinGamePayload);
+        this.handleJoinGame(clientId, ws, clientIp, identityId, message.payload);
         break;
       case 'start_game':
         this.handleStartGame(clientId);
         break;
       case 'make_bid':
-        this.handleMakeBid(clientId, message.payload as MakeBidPayload);
+        this.handleMakeBid(clientId, message.payload);
         break;
       case 'call_dudo':
-        this.handleCallDudo(clientId);
+        this.handleCallDudo(clientId, message.payload || {});
         break;
       case 'call_jonti':
         this.handleCallJonti(clientId);
         break;
+      case 'call_calza':
+        this.handleCallCalza(clientId);
+        break;
       case 'play_card':
-        this.handlePlayCard(clientId, message.payload as PlayCardPayload);
+        this.handlePlayCard(clientId, message.payload);
         break;
       case 'ready_for_round':
         this.handleReadyForRound(clientId);
@@ -190,6 +413,15 @@ export class GameSession {
       case 'select_slot':
         this.handleSelectSlot(clientId, message.payload.slot);
         break;
+      case 'add_bot':
+        this.handleAddBot(clientId, message.payload);
+        break;
+      case 'transfer_host':
+        this.handleTransferHost(clientId, message.payload);
+        break;
+      case 'get_game_events':
+        this.handleGetGameEvents(clientId, message.payload || {});
+        break;
       default:
         const client = this.clients.get(clientId);
         if (client) {
@@ -198,23 +430,87 @@ export class GameSession {
     }
   }
 
+  /**
+   * Let a client watch the session at any phase without taking a seat.
+   * Spectators get public state, chat and dice reveals, never private info.
+   */
+  public addSpectator(clientId: string, ws: WebSocket, name: string): void {
+    this.spectators.set(clientId, { ws, name });
+
+    this.send(ws, {
+      type: 'spectating',
+      payload: { gameState: this.getPublicGameState() }
+    });
+
+    this.send(ws, {
+      type: 'server_info',
+      payload: {
+        publicIp: this.publicIp,
+        port: this.port,
+        playerCount: this.gameState.players.length,
+        maxPlayers: this.gameState.settings.maxPlayers,
+        botStrategies: this.botStrategies.list()
+      }
+    });
+
+    // Commitments let spectators verify the reveals at the end of the round too
+    if (this.gameState.phase !== 'lobby' && this.gameState.phase !== 'game_over') {
+      this.send(ws, {
+        type: 'dice_commitments',
+        payload: {
+          roundNumber: this.gameState.roundNumber,
+          commitments: this.diceCommitments.map(entry => entry.commitment)
+        }
+      });
+    }
+
+    console.log(`[Session ${this.name}] ${name} is spectating`);
+    this.onSessionUpdate();
+  }
+
+  private handleSpectatorMessage(clientId: string, message: ClientMessage): void {
+    const spectator = this.spectators.get(clientId);
+    if (!spectator) return;
+
+    switch (message.type) {
+      case 'chat':
+        this.broadcast({
+          type: 'chat',
+          payload: {
+            playerId: '',
+            playerName: `${spectator.name} (spectator)`,
+            message: message.payload.message,
+            timestamp: Date.now()
+          }
+        });
+        break;
+      case 'get_game_events': {
+        const payload = message.payload || {};
+        // No private details are visible to an empty player id
+        this.send(spectator.ws, {
+          type: 'game_events',
+          payload: { events: this.getGameEvents('', payload.sinceSeq) }
+        });
+        break;
+      }
+      default:
+        this.sendError(spectator.ws, 'Spectators cannot take game actions', 'SPECTATOR');
+    }
+  }
+
   private handleJoinGame(clientId: string, ws: WebSocket, clientIp: string, identityId: string, payload: JoinGamePayload): void {
     try {
-      // Check if this is a reconnecting player (same name, disconnected)
-      const existingPlayer = this.gameState.players.find(
-        p => p.name === payload.playerName && !p.isConnected
-      );
+      // Only the seat's reconnect token can reclaim a disconnected player
+      const existingPlayer = this.findReconnectingPlayer(payload.reconnectToken);
       
-      console.log(`[Session ${this.name}] Join request from "${payload.playerName}", existing disconnected player found: ${!!existingPlayer}`);
+      console.log(`[Session ${this.name}] Join request from "${payload.playerName}", reconnecting: ${!!existingPlayer}`);
 
       if (existingPlayer) {
         // Reconnect existing player
-        this.gameState = {
-          ...this.gameState,
-          players: this.gameState.players.map(p =>
-            p.id === existingPlayer.id ? { ...p, isConnected: true } : p
-          )
-        };
+        this.applyAction(
+          { type: 'set_connected', playerId: existingPlayer.id, isConnected: true },
+          setPlayerConnected(this.gameState, existingPlayer.id, true)
+        );
 
         this.clients.set(clientId, { 
           ws, 
@@ -223,6 +519,8 @@ export class GameSession {
           playerName: existingPlayer.name, 
           ip: existingPlayer.ip 
         });
+        this.connectedSince.set(existingPlayer.id, Date.now());
+        this.recordEvent({ type: 'player_reconnected', playerId: existingPlayer.id });
 
         // Send connection accepted
         this.send(ws, {
@@ -230,7 +528,8 @@ export class GameSession {
           payload: {
             playerId: existingPlayer.id,
             isHost: existingPlayer.isHost,
-            gameState: toPublicGameState(this.gameState)
+            reconnectToken: this.issueReconnectToken(existingPlayer.id),
+            gameState: this.getPublicGameState()
           }
         });
 
@@ -241,7 +540,8 @@ export class GameSession {
             publicIp: this.publicIp,
             port: this.port,
             playerCount: this.gameState.players.length,
-            maxPlayers: this.gameState.settings.maxPlayers
+            maxPlayers: this.gameState.settings.maxPlayers,
+            botStrategies: this.botStrategies.list()
           }
         });
 
@@ -251,7 +551,15 @@ export class GameSession {
             type: 'private_info',
             payload: {
               dice: existingPlayer.dice,
-              cards: existingPlayer.cards
+              cards: existingPlayer.cards,
+              playableCardIds: getPlayableCardsForPlayer(this.gameState, existingPlayer.id).map(c => c.id)
+            }
+          });
+          this.send(ws, {
+            type: 'dice_commitments',
+            payload: {
+              roundNumber: this.gameState.roundNumber,
+              commitments: this.diceCommitments.map(entry => entry.commitment)
             }
           });
         }
@@ -262,7 +570,7 @@ export class GameSession {
           payload: {
             playerId: existingPlayer.id,
             playerName: existingPlayer.name,
-            gameState: toPublicGameState(this.gameState)
+            gameState: this.getPublicGameState()
           }
         });
 
@@ -275,7 +583,10 @@ export class GameSession {
       const isHost = this.gameState.players.length === 0;
       const player = createPlayer(payload.playerName, isHost, clientIp);
       
-      this.gameState = addPlayer(this.gameState, player);
+      this.applyAction(
+        { type: 'add_player', playerId: player.id, playerName: player.name, isHost, ip: clientIp },
+        addPlayer(this.gameState, player)
+      );
       this.clients.set(clientId, { 
         ws, 
         odentityId: identityId,
@@ -283,6 +594,8 @@ export class GameSession {
         playerName: player.name, 
         ip: clientIp 
       });
+      this.connectedSince.set(player.id, Date.now());
+      this.recordEvent({ type: 'player_joined', playerId: player.id, playerName: player.name });
 
       // Send connection accepted to the new player
       this.send(ws, {
@@ -290,7 +603,8 @@ export class GameSession {
         payload: {
           playerId: player.id,
           isHost,
-          gameState: toPublicGameState(this.gameState)
+          reconnectToken: this.issueReconnectToken(player.id),
+          gameState: this.getPublicGameState()
         }
       });
 
@@ -301,7 +615,8 @@ export class GameSession {
           publicIp: this.publicIp,
           port: this.port,
           playerCount: this.gameState.players.length,
-          maxPlayers: this.gameState.settings.maxPlayers
+          maxPlayers: this.gameState.settings.maxPlayers,
+          botStrategies: this.botStrategies.list()
         }
       });
 
@@ -311,7 +626,7 @@ export class GameSession {
         payload: {
           playerId: player.id,
           playerName: player.name,
-          gameState: toPublicGameState(this.gameState)
+          gameState: this.getPublicGameState()
         }
       });
 
@@ -333,28 +648,36 @@ export class GameSession {
     }
 
     try {
-      this.gameState = startGame(this.gameState);
-      
-      // Initialize deck for non-classic modes
-      if (this.gameState.settings.mode !== 'classic') {
-        this.deck = createDeck(this.gameState.settings.mode === 'chaos');
-      }
+      const lobbyState = this.gameState;
+      const startedState = startGame(this.gameState);
 
       // Roll dice for the first round
-      this.gameState = rollDiceForRound(this.gameState);
+      this.applyAction({ type: 'start_game', seed: startedState.seed! }, rollDiceForRound(startedState));
+
+      this.gameNumber++;
+      this.beginMatch(lobbyState, startedState.seed!);
+      this.recordEvent({
+        type: 'game_started',
+        playerIds: this.gameState.players.map(p => p.id),
+        settings: { ...this.gameState.settings },
+        startingPlayerId: getCurrentPlayer(this.gameState)!.id,
+        privateDetails: [{ visibleTo: [], data: { seed: this.gameState.seed! } }]
+      });
+      this.recordRoundStarted();
 
       // Broadcast game started
       this.broadcast({
         type: 'game_started',
         payload: {
-          gameState: toPublicGameState(this.gameState)
+          gameState: this.getPublicGameState(),
+          commitments: this.commitRoundDice()
         }
       });
 
       // Send private info to each player
       this.sendPrivateInfoToAll();
 
-      console.log(`[Session ${this.name}] Game started!`);
+      console.log(`[Session ${this.name}] Game started! (seed ${this.gameState.seed})`);
       this.onSessionUpdate();
     } catch (error: any) {
       this.sendError(client.ws, error.message, 'START_ERROR');
@@ -372,13 +695,16 @@ export class GameSession {
     }
 
     try {
-      this.gameState = resetGame(this.gameState);
+      this.applyAction({ type: 'new_game' }, resetGame(this.gameState));
+      this.diceCommitments = [];
+      this.endMatch();
+      this.recordEvent({ type: 'game_reset', playerId: client.playerId });
 
       // Broadcast game reset to all players
       this.broadcast({
         type: 'game_state_update',
         payload: {
-          gameState: toPublicGameState(this.gameState)
+          gameState: this.getPublicGameState()
         }
       });
 
@@ -394,17 +720,21 @@ export class GameSession {
     if (!client) return;
 
     try {
-      this.gameState = pauseGame(this.gameState);
+      this.applyAction({ type: 'pause_game' }, pauseGame(this.gameState));
+      this.recordEvent({ type: 'game_paused', playerId: client.playerId });
 
       // Broadcast game paused to all players
       this.broadcast({
         type: 'game_paused',
         payload: {
           pausedBy: client.playerName,
-          gameState: toPublicGameState(this.gameState)
+          gameState: this.getPublicGameState()
         }
       });
 
+      // Nothing is playable while paused
+      this.sendPrivateInfoToAll();
+
       console.log(`[Session ${this.name}] Game paused by ${client.playerName}`);
       this.onSessionUpdate();
     } catch (error: any) {
@@ -417,17 +747,21 @@ export class GameSession {
     if (!client) return;
 
     try {
-      this.gameState = resumeGame(this.gameState);
+      this.applyAction({ type: 'resume_game' }, resumeGame(this.gameState));
+      this.recordEvent({ type: 'game_resumed', playerId: client.playerId });
 
       // Broadcast game resumed to all players
       this.broadcast({
         type: 'game_resumed',
         payload: {
           resumedBy: client.playerName,
-          gameState: toPublicGameState(this.gameState)
+          gameState: this.getPublicGameState()
         }
       });
 
+      // Card timing windows reopen
+      this.sendPrivateInfoToAll();
+
       console.log(`[Session ${this.name}] Game resumed by ${client.playerName}`);
       this.onSessionUpdate();
     } catch (error: any) {
@@ -436,39 +770,48 @@ export class GameSession {
   }
 
   private handleMakeBid(clientId: string, payload: MakeBidPayload): void {
-    const client = this.clients.get(clientId);
+    const client = this.getActor(clientId);
     if (!client) return;
 
     try {
-      this.gameState = makeBid(this.gameState, client.playerId, payload.quantity, payload.faceValue);
+      this.applyAction(
+        { type: 'make_bid', playerId: client.playerId, quantity: payload.quantity, faceValue: payload.faceValue },
+        makeBid(this.gameState, client.playerId, payload.quantity, payload.faceValue)
+      );
+      this.recordEvent({ type: 'bid', playerId: client.playerId, bid: this.gameState.currentBid! });
 
       this.broadcast({
         type: 'bid_made',
         payload: {
           playerId: client.playerId,
-          bid: this.gameState.currentBid,
-          gameState: toPublicGameState(this.gameState)
+          bid: this.gameState.currentBid!,
+          gameState: this.getPublicGameState()
         }
       });
 
+      // The turn moved on, so card timing windows changed for everyone
+      this.sendPrivateInfoToAll();
+
       console.log(`[Session ${this.name}] ${client.playerName} bid ${payload.quantity}x ${payload.faceValue}s`);
     } catch (error: any) {
       this.sendError(client.ws, error.message, 'BID_ERROR');
     }
   }
 
-  private handleCallDudo(clientId: string): void {
-    const client = this.clients.get(clientId);
+  private handleCallDudo(clientId: string, payload: CallDudoPayload): void {
+    const client = this.getActor(clientId);
     if (!client) return;
 
     try {
-      const { newState, result } = callDudo(this.gameState, client.playerId);
-      this.gameState = newState;
-
-      // Check for active effects
-      const player = this.gameState.players.find(p => p.id === client.playerId);
-      const insuranceUsed = player?.activeEffects?.insurance || false;
-      const doubleDudo = player?.activeEffects?.doubleDudo || false;
+      const targetBidIndex = payload.targetBidIndex ?? null;
+      const stateBeforeResult = this.gameState;
+      const { newState, result, cardDrawn, insuranceUsed, doubleDudo } = resolveDudo(
+        this.gameState,
+        client.playerId,
+        targetBidIndex
+      );
+      this.applyAction({ type: 'call_dudo', playerId: client.playerId, targetBidIndex }, newState);
+      const lateDudoUsed = targetBidIndex !== null;
 
       // Broadcast dudo called
       this.broadcast({
@@ -479,29 +822,23 @@ export class GameSession {
         }
       });
 
-      // Apply result with active effects
-      const { newState: finalState, cardDrawn } = applyDudoResult(
-        this.gameState, 
-        result, 
-        insuranceUsed, 
-        doubleDudo
-      );
-      this.gameState = finalState;
-      
-      // Clear the used effects
-      if (insuranceUsed) {
-        this.gameState = setActiveEffect(this.gameState, client.playerId, 'insurance', false);
-      }
-      if (doubleDudo) {
-        this.gameState = setActiveEffect(this.gameState, client.playerId, 'doubleDudo', false);
+      this.recordEvent({ type: 'dudo', callerId: client.playerId, result, insuranceUsed, doubleDudo });
+      if (cardDrawn) {
+        this.recordEvent({
+          type: 'card_drawn',
+          playerId: result.loserId,
+          privateDetails: [{ visibleTo: [result.loserId], data: { card: cardDrawn } }]
+        });
       }
+      this.recordRoundOutcome(stateBeforeResult);
 
       // Broadcast result
       this.broadcast({
         type: 'dudo_result',
         payload: {
           result,
-          gameState: toPublicGameState(this.gameState)
+          reveals: this.revealDice(),
+          gameState: this.getPublicGameState()
         }
       });
 
@@ -526,12 +863,13 @@ export class GameSession {
           payload: {
             winnerId: this.gameState.winnerId,
             winnerName: winner?.name,
-            gameState: toPublicGameState(this.gameState)
+            gameNumber: this.gameNumber, // Replay with GET /api/sessions/:sessionId/matches/:gameNumber
+            gameState: this.getPublicGameState()
           }
         });
       }
 
-      console.log(`[Session ${this.name}] Dudo called by ${client.playerName}. Result: ${result.success ? 'Success' : 'Failed'}`);
+      console.log(`[Session ${this.name}] ${lateDudoUsed ? 'Late Dudo' : 'Dudo'} called by ${client.playerName}. Result: ${result.success ? 'Success' : 'Failed'}`);
       this.onSessionUpdate();
     } catch (error: any) {
       this.sendError(client.ws, error.message, 'DUDO_ERROR');
@@ -539,12 +877,12 @@ export class GameSession {
   }
 
   private handleCallJonti(clientId: string): void {
-    const client = this.clients.get(clientId);
+    const client = this.getActor(clientId);
     if (!client) return;
 
     try {
+      const stateBeforeResult = this.gameState;
       const { newState, result } = callJonti(this.gameState, client.playerId);
-      this.gameState = newState;
 
       // Broadcast jonti called
       this.broadcast({
@@ -556,15 +894,18 @@ export class GameSession {
       });
 
       // Apply result
-      const { newState: finalState } = applyJontiResult(this.gameState, result);
-      this.gameState = finalState;
+      const { newState: finalState } = applyJontiResult(newState, result);
+      this.applyAction({ type: 'call_jonti', playerId: client.playerId }, finalState);
+      this.recordEvent({ type: 'jonti', callerId: client.playerId, result });
+      this.recordRoundOutcome(stateBeforeResult);
 
       // Broadcast result
       this.broadcast({
         type: 'jonti_result',
         payload: {
           result,
-          gameState: toPublicGameState(this.gameState)
+          reveals: this.revealDice(),
+          gameState: this.getPublicGameState()
         }
       });
 
@@ -576,7 +917,8 @@ export class GameSession {
           payload: {
             winnerId: this.gameState.winnerId,
             winnerName: winner?.name,
-            gameState: toPublicGameState(this.gameState)
+            gameNumber: this.gameNumber, // Replay with GET /api/sessions/:sessionId/matches/:gameNumber
+            gameState: this.getPublicGameState()
           }
         });
       }
@@ -588,8 +930,62 @@ export class GameSession {
     }
   }
 
+  private handleCallCalza(clientId: string): void {
+    const client = this.getActor(clientId);
+    if (!client) return;
+
+    try {
+      const stateBeforeResult = this.gameState;
+      const { newState, result } = callCalza(this.gameState, client.playerId);
+
+      // Broadcast calza called
+      this.broadcast({
+        type: 'calza_called',
+        payload: {
+          callerId: client.playerId,
+          callerName: client.playerName
+        }
+      });
+
+      // Apply result
+      const { newState: finalState } = applyCalzaResult(newState, result);
+      this.applyAction({ type: 'call_calza', playerId: client.playerId }, finalState);
+      this.recordEvent({ type: 'calza', callerId: client.playerId, result });
+      this.recordRoundOutcome(stateBeforeResult);
+
+      // Broadcast result
+      this.broadcast({
+        type: 'calza_result',
+        payload: {
+          result,
+          reveals: this.revealDice(),
+          gameState: this.getPublicGameState()
+        }
+      });
+
+      // Check for game over
+      if (this.gameState.phase === 'game_over') {
+        const winner = this.gameState.players.find(p => p.id === this.gameState.winnerId);
+        this.broadcast({
+          type: 'game_over',
+          payload: {
+            winnerId: this.gameState.winnerId,
+            winnerName: winner?.name,
+            gameNumber: this.gameNumber, // Replay with GET /api/sessions/:sessionId/matches/:gameNumber
+            gameState: this.getPublicGameState()
+          }
+        });
+      }
+
+      console.log(`[Session ${this.name}] Calza called by ${client.playerName}. Result: ${result.success ? 'Success - regained a die!' : 'Failed - lost a die!'}`);
+      this.onSessionUpdate();
+    } catch (error: any) {
+      this.sendError(client.ws, error.message, 'CALZA_ERROR');
+    }
+  }
+
   private handlePlayCard(clientId: string, payload: PlayCardPayload): void {
-    const client = this.clients.get(clientId);
+    const client = this.getActor(clientId);
     if (!client) return;
 
     const player = this.gameState.players.find(p => p.id === client.playerId);
@@ -601,146 +997,61 @@ export class GameSession {
       return;
     }
 
+    // Enforce card timing and turn ownership server-side
+    const isPlayableNow = getPlayableCardsForPlayer(this.gameState, client.playerId).some(c => c.id === card.id);
+    if (!isPlayableNow) {
+      this.sendError(client.ws, `${card.name} cannot be played right now`, 'CARD_TIMING');
+      return;
+    }
+
     try {
-      // Validate required parameters before applying card effects
-      switch (card.type) {
-        case 'reroll_one':
-          if (!payload.targetDieId) throw new Error('Must specify die to reroll');
-          break;
-        case 'polish':
-          if (!payload.targetDieId) throw new Error('Must specify die to polish');
-          break;
-        case 'crack':
-          if (!payload.targetPlayerId || (!payload.targetDieId && payload.additionalData?.dieIndex === undefined)) {
-            throw new Error('Must specify target player and die');
-          }
-          break;
-        case 'peek':
-          if (!payload.targetPlayerId || (!payload.targetDieId && payload.additionalData?.dieIndex === undefined)) {
-            throw new Error('Must specify target player and die to peek');
-          }
-          break;
-        case 'gauge':
-          if (!payload.additionalData?.dieIds || payload.additionalData.dieIds.length !== 2) {
-            throw new Error('Must specify exactly 2 dice to gauge');
-          }
-          break;
-        case 'wild_shift':
-          if (!payload.additionalData?.faceValue) throw new Error('Must specify new face value');
-          break;
-        case 'inflation':
-          if (!this.gameState.currentBid) throw new Error('No current bid to inflate');
-          break;
-        case 'blind_swap':
-          if (!payload.targetPlayerId || !payload.targetDieId) {
-            throw new Error('Must specify your die and target player');
-          }
-          break;
-      }
+      // Validate and apply the card effect, then discard the card
+      const stateBeforeCard = this.gameState;
+      this.applyAction(
+        { type: 'play_card', playerId: client.playerId, card: payload },
+        playCard(this.gameState, client.playerId, payload)
+      );
 
-      // Apply card effect based on type
+      // Tell the player what their card did
+      let privateResult: CardResult | undefined;
       switch (card.type) {
         case 'reroll_one':
-          this.gameState = applyRerollOne(this.gameState, client.playerId, payload.targetDieId!);
-          this.send(client.ws, {
-            type: 'card_played',
-            payload: {
-              playerId: client.playerId,
-              cardType: 'reroll_one',
-              cardName: card.name,
-              result: { message: 'Die re-rolled! Check your dice for the new value.' }
-            }
-          });
+          this.commitChangedDice([client.playerId]);
+          privateResult = this.sendCardResult(client.ws, client.playerId, card, { cardType: 'reroll_one', message: 'Die re-rolled! Check your dice for the new value.' });
           break;
         case 'polish':
-          this.gameState = applyPolish(this.gameState, client.playerId, payload.targetDieId!);
-          this.send(client.ws, {
-            type: 'card_played',
-            payload: {
-              playerId: client.playerId,
-              cardType: 'polish',
-              cardName: card.name,
-              result: { message: 'Die upgraded! Check your dice for the new type.' }
-            }
-          });
+          this.commitChangedDice([client.playerId]);
+          privateResult = this.sendCardResult(client.ws, client.playerId, card, { cardType: 'polish', message: 'Die upgraded! Check your dice for the new type.' });
           break;
         case 'crack':
           {
-            let targetDieId = payload.targetDieId;
-            if (!targetDieId && payload.additionalData?.dieIndex !== undefined) {
-              const targetPlayer = this.gameState.players.find(p => p.id === payload.targetPlayerId);
-              if (targetPlayer && targetPlayer.dice[payload.additionalData.dieIndex]) {
-                targetDieId = targetPlayer.dice[payload.additionalData.dieIndex].id;
-              }
-            }
-            if (!targetDieId) throw new Error('Could not resolve target die');
-            this.gameState = applyCrack(this.gameState, payload.targetPlayerId!, targetDieId);
+            this.commitChangedDice([payload.targetPlayerId!]);
             const crackedPlayerName = this.gameState.players.find(p => p.id === payload.targetPlayerId)?.name || 'opponent';
-            this.send(client.ws, {
-              type: 'card_played',
-              payload: {
-                playerId: client.playerId,
-                cardType: 'crack',
-                cardName: card.name,
-                result: { message: `Cracked ${crackedPlayerName}'s die! Their die has been downgraded.` }
-              }
-            });
+            privateResult = this.sendCardResult(client.ws, client.playerId, card, { cardType: 'crack', message: `Cracked ${crackedPlayerName}'s die! Their die has been downgraded.` });
           }
           break;
         case 'inflation':
-          this.gameState = applyInflation(this.gameState);
-          this.send(client.ws, {
-            type: 'card_played',
-            payload: {
-              playerId: client.playerId,
-              cardType: 'inflation',
-              cardName: card.name,
-              result: { 
-                message: `Bid inflated! The current bid is now ${this.gameState.currentBid?.quantity}× ${this.gameState.currentBid?.faceValue}s.`
-              }
-            }
+          privateResult = this.sendCardResult(client.ws, client.playerId, card, {
+            cardType: 'inflation',
+            message: `Bid inflated! The current bid is now ${this.gameState.currentBid?.quantity}× ${this.gameState.currentBid?.faceValue}s.`
           });
           break;
         case 'wild_shift':
-          this.gameState = applyWildShift(this.gameState, payload.additionalData.faceValue);
-          this.send(client.ws, {
-            type: 'card_played',
-            payload: {
-              playerId: client.playerId,
-              cardType: 'wild_shift',
-              cardName: card.name,
-              result: { 
-                message: `Bid shifted! The current bid is now ${this.gameState.currentBid?.quantity}× ${this.gameState.currentBid?.faceValue}s.`
-              }
-            }
+          privateResult = this.sendCardResult(client.ws, client.playerId, card, {
+            cardType: 'wild_shift',
+            message: `Bid shifted! The current bid is now ${this.gameState.currentBid?.quantity}× ${this.gameState.currentBid?.faceValue}s.`
           });
           break;
         case 'peek':
           {
-            const targetPlayer = this.gameState.players.find(p => p.id === payload.targetPlayerId);
-            let targetDie = targetPlayer?.dice.find(d => d.id === payload.targetDieId);
-            if (!targetDie && payload.additionalData?.dieIndex !== undefined && targetPlayer) {
-              targetDie = targetPlayer.dice[payload.additionalData.dieIndex];
-            }
-            if (targetDie) {
-              this.send(client.ws, {
-                type: 'card_played',
-                payload: {
-                  playerId: client.playerId,
-                  cardType: 'peek',
-                  cardName: card.name,
-                  result: { die: targetDie }
-                }
-              });
-            } else {
-              throw new Error('Could not find target die');
-            }
+            const targetDie = findTargetDie(stateBeforeCard, payload.targetPlayerId, payload.targetDieId, payload.additionalData?.dieIndex)!;
+            privateResult = this.sendCardResult(client.ws, client.playerId, card, { cardType: 'peek', die: targetDie });
           }
           break;
         case 'gauge':
           {
-            const dieInfos: { playerId: string; dieType: string; playerName: string }[] = [];
-            for (const dieKey of payload.additionalData.dieIds) {
+            const dieInfos: GaugedDie[] = [];
+            for (const dieKey of payload.additionalData!.dieIds!) {
               const parts = dieKey.split('-');
               const dieIndexStr = parts[parts.length - 1];
               const targetPlayerId = parts.slice(0, -1).join('-');
@@ -755,77 +1066,27 @@ export class GameSession {
                 });
               }
             }
-            this.send(client.ws, {
-              type: 'card_played',
-              payload: {
-                playerId: client.playerId,
-                cardType: 'gauge',
-                cardName: card.name,
-                result: { dieInfos }
-              }
-            });
+            privateResult = this.sendCardResult(client.ws, client.playerId, card, { cardType: 'gauge', dieInfos });
           }
           break;
         case 'blind_swap':
-          this.gameState = this.applyBlindSwap(client.playerId, payload.targetDieId!, payload.targetPlayerId!);
-          const swappedPlayerName = this.gameState.players.find(p => p.id === payload.targetPlayerId)?.name || 'opponent';
-          this.send(client.ws, {
-            type: 'card_played',
-            payload: {
-              playerId: client.playerId,
-              cardType: 'blind_swap',
-              cardName: card.name,
-              result: { message: `Swapped a die with ${swappedPlayerName}! Check your dice.` }
-            }
-          });
+          {
+            this.commitChangedDice([client.playerId, payload.targetPlayerId!]);
+            const swappedPlayerName = this.gameState.players.find(p => p.id === payload.targetPlayerId)?.name || 'opponent';
+            privateResult = this.sendCardResult(client.ws, client.playerId, card, { cardType: 'blind_swap', message: `Swapped a die with ${swappedPlayerName}! Check your dice.` });
+          }
           break;
         case 'insurance':
-          this.gameState = setActiveEffect(this.gameState, client.playerId, 'insurance', true);
-          this.send(client.ws, {
-            type: 'card_played',
-            payload: {
-              playerId: client.playerId,
-              cardType: 'insurance',
-              cardName: card.name,
-              result: { message: 'Insurance activated! If your next Dudo fails, you won\'t lose a die.' }
-            }
-          });
+          privateResult = this.sendCardResult(client.ws, client.playerId, card, { cardType: 'insurance', message: 'Insurance activated! If your next Dudo fails, you won\'t lose a die.' });
           break;
         case 'double_dudo':
-          this.gameState = setActiveEffect(this.gameState, client.playerId, 'doubleDudo', true);
-          this.send(client.ws, {
-            type: 'card_played',
-            payload: {
-              playerId: client.playerId,
-              cardType: 'double_dudo',
-              cardName: card.name,
-              result: { message: 'Double Dudo activated! Your next Dudo has double stakes.' }
-            }
-          });
+          privateResult = this.sendCardResult(client.ws, client.playerId, card, { cardType: 'double_dudo', message: 'Double Dudo activated! Your next Dudo has double stakes.' });
           break;
         case 'late_dudo':
-          this.gameState = setActiveEffect(this.gameState, client.playerId, 'lateDudo', true);
-          this.send(client.ws, {
-            type: 'card_played',
-            payload: {
-              playerId: client.playerId,
-              cardType: 'late_dudo',
-              cardName: card.name,
-              result: { message: 'Late Dudo activated! You can call Dudo on a previous bid.' }
-            }
-          });
+          privateResult = this.sendCardResult(client.ws, client.playerId, card, { cardType: 'late_dudo', message: 'Late Dudo activated! You can call Dudo on a previous bid.' });
           break;
         case 'phantom_bid':
-          this.gameState = setActiveEffect(this.gameState, client.playerId, 'phantomBid', true);
-          this.send(client.ws, {
-            type: 'card_played',
-            payload: {
-              playerId: client.playerId,
-              cardType: 'phantom_bid',
-              cardName: card.name,
-              result: { message: 'Phantom Bid activated! Your next bid can ignore normal increment rules.' }
-            }
-          });
+          privateResult = this.sendCardResult(client.ws, client.playerId, card, { cardType: 'phantom_bid', message: 'Phantom Bid activated! Your next bid can ignore normal increment rules.' });
           break;
         case 'false_tell':
           this.broadcast({
@@ -834,10 +1095,10 @@ export class GameSession {
               playerId: client.playerId,
               cardType: 'false_tell',
               cardName: card.name,
-              result: { message: `${client.playerName} claims to have peeked at a die!` }
+              result: { cardType: 'false_tell', message: `${client.playerName} claims to have peeked at a die!` }
             }
           });
-          this.gameState = removeCardFromHand(this.gameState, client.playerId, payload.cardId);
+          this.recordCardPlayed(client.playerId, card, payload, stateBeforeCard, undefined);
           this.sendPrivateInfo(client.playerId);
           console.log(`[Session ${this.name}] ${client.playerName} played ${card.name}`);
           return;
@@ -845,8 +1106,13 @@ export class GameSession {
           console.log(`[Session ${this.name}] Card ${card.type} played but effect not fully implemented`);
       }
 
-      // Remove card from hand
-      this.gameState = removeCardFromHand(this.gameState, client.playerId, payload.cardId);
+      this.recordCardPlayed(client.playerId, card, payload, stateBeforeCard, privateResult);
+
+      // Bots learn exactly what the card result would have told a human
+      const bot = this.bots.get(client.playerId);
+      if (bot) {
+        bot.knowledge = updateBotKnowledge(bot.knowledge, payload, privateResult);
+      }
 
       // Broadcast card played
       this.broadcast({
@@ -855,7 +1121,7 @@ export class GameSession {
           playerId: client.playerId,
           cardType: card.type,
           cardName: card.name,
-          gameState: toPublicGameState(this.gameState)
+          gameState: this.getPublicGameState()
         }
       });
 
@@ -878,14 +1144,15 @@ export class GameSession {
     if (this.gameState.phase !== 'round_end') return;
 
     try {
-      this.gameState = startNewRound(this.gameState);
-      this.gameState = rollDiceForRound(this.gameState);
+      this.applyAction({ type: 'start_round' }, rollDiceForRound(startNewRound(this.gameState)));
+      this.recordRoundStarted();
 
       this.broadcast({
         type: 'round_started',
         payload: {
           roundNumber: this.gameState.roundNumber,
-          gameState: toPublicGameState(this.gameState)
+          gameState: this.getPublicGameState(),
+          commitments: this.commitRoundDice()
         }
       });
 
@@ -898,7 +1165,7 @@ export class GameSession {
     }
   }
 
-  private handleChat(clientId: string, payload: { message: string }): void {
+  private handleChat(clientId: string, payload: SendChatPayload): void {
     const client = this.clients.get(clientId);
     if (!client) return;
 
@@ -914,29 +1181,30 @@ export class GameSession {
   }
 
   public handleDisconnect(clientId: string): void {
+    const spectator = this.spectators.get(clientId);
+    if (spectator) {
+      this.spectators.delete(clientId);
+      console.log(`[Session ${this.name}] Spectator ${spectator.name} left`);
+      this.onSessionUpdate();
+      return;
+    }
+
     const client = this.clients.get(clientId);
     if (!client) return;
 
-    // Mark player as disconnected
-    this.gameState = {
-      ...this.gameState,
-      players: this.gameState.players.map(p =>
-        p.id === client.playerId ? { ...p, isConnected: false } : p
-      )
-    };
+    // Mark player as disconnected (auto-pauses if everyone is gone)
+    const wasPaused = this.gameState.phase === 'paused';
+    this.applyAction(
+      { type: 'set_connected', playerId: client.playerId, isConnected: false },
+      setPlayerConnected(this.gameState, client.playerId, false)
+    );
 
     this.clients.delete(clientId);
+    this.connectedSince.delete(client.playerId);
+    this.recordEvent({ type: 'player_disconnected', playerId: client.playerId });
 
-    // Check if all players are disconnected during an active game
-    const allDisconnected = this.gameState.players.every(p => !p.isConnected);
-    const isActiveGame = this.gameState.phase !== 'lobby' && this.gameState.phase !== 'game_over';
-    
-    if (allDisconnected && isActiveGame) {
-      this.gameState = {
-        ...this.gameState,
-        pausedFromPhase: this.gameState.phase,
-        phase: 'paused'
-      };
+    if (!wasPaused && this.gameState.phase === 'paused') {
+      this.recordEvent({ type: 'game_paused', playerId: null });
       console.log(`[Session ${this.name}] All players disconnected - game auto-paused from phase: ${this.gameState.pausedFromPhase}`);
     }
 
@@ -945,7 +1213,7 @@ export class GameSession {
       payload: {
         playerId: client.playerId,
         playerName: client.playerName,
-        gameState: toPublicGameState(this.gameState)
+        gameState: this.getPublicGameState()
       }
     });
 
@@ -974,10 +1242,10 @@ export class GameSession {
       return;
     }
 
-    this.gameState = {
-      ...this.gameState,
-      players: this.gameState.players.filter(p => p.id !== targetPlayerId)
-    };
+    this.applyAction({ type: 'remove_player', playerId: targetPlayerId }, removePlayer(this.gameState, targetPlayerId));
+    this.bots.delete(targetPlayerId);
+    this.reconnectTokens.delete(targetPlayerId);
+    this.recordEvent({ type: 'player_kicked', playerId: targetPlayerId, kickedBy: client.playerId });
 
     for (const [cid, c] of this.clients.entries()) {
       if (c.playerId === targetPlayerId) {
@@ -996,7 +1264,7 @@ export class GameSession {
       payload: {
         playerId: targetPlayerId,
         playerName: targetPlayer.name,
-        gameState: toPublicGameState(this.gameState)
+        gameState: this.getPublicGameState()
       }
     });
 
@@ -1004,45 +1272,107 @@ export class GameSession {
     this.onSessionUpdate();
   }
 
-  private handleSelectSlot(clientId: string, slot: number | null): void {
+  private handleTransferHost(clientId: string, payload: TransferHostPayload): void {
     const client = this.clients.get(clientId);
     if (!client) return;
 
-    if (this.gameState.phase !== 'lobby') {
-      this.sendError(client.ws, 'Cannot change slots during game', 'SLOT_ERROR');
+    if (!this.isPlayerHost(clientId)) {
+      this.sendError(client.ws, 'Only the host can transfer host', 'NOT_HOST');
       return;
     }
 
-    if (slot !== null && (slot < 0 || slot >= this.gameState.settings.maxPlayers)) {
-      this.sendError(client.ws, 'Invalid slot number', 'SLOT_ERROR');
+    const targetPlayer = this.gameState.players.find(p => p.id === payload?.playerId);
+    if (!targetPlayer) {
+      this.sendError(client.ws, 'Player not found', 'PLAYER_NOT_FOUND');
+      return;
+    }
+    if (targetPlayer.id === client.playerId) {
+      this.sendError(client.ws, 'You are already the host', 'HOST_ERROR');
+      return;
+    }
+    if (!targetPlayer.isConnected) {
+      this.sendError(client.ws, 'Player is not connected', 'HOST_ERROR');
       return;
     }
 
-    if (slot !== null) {
-      const slotTaken = this.gameState.players.some(
-        p => p.slot === slot && p.id !== client.playerId
-      );
-      if (slotTaken) {
-        this.sendError(client.ws, 'Slot is already taken', 'SLOT_TAKEN');
-        return;
-      }
+    try {
+      this.changeHost(targetPlayer.id, 'transfer');
+    } catch (error: any) {
+      this.sendError(client.ws, error.message, 'HOST_ERROR');
     }
+  }
 
-    this.gameState = {
-      ...this.gameState,
-      players: this.gameState.players.map(p =>
-        p.id === client.playerId ? { ...p, slot } : p
-      )
-    };
+  private handleSelectSlot(clientId: string, slot: number | null): void {
+    const client = this.clients.get(clientId);
+    if (!client) return;
+
+    try {
+      this.applyAction({ type: 'select_slot', playerId: client.playerId, slot }, selectSlot(this.gameState, client.playerId, slot));
+    } catch (error: any) {
+      this.sendError(client.ws, error.message, error.message === 'Slot is already taken' ? 'SLOT_TAKEN' : 'SLOT_ERROR');
+      return;
+    }
+    this.recordEvent({ type: 'slot_selected', playerId: client.playerId, slot });
 
     this.broadcast({
       type: 'game_state_update',
-      payload: { gameState: toPublicGameState(this.gameState) }
+      payload: { gameState: this.getPublicGameState() }
     });
 
     console.log(`[Session ${this.name}] Player ${client.playerName} selected slot ${slot}`);
   }
 
+  private handleAddBot(clientId: string, payload: AddBotPayload): void {
+    const client = this.clients.get(clientId);
+    if (!client) return;
+
+    const requestingPlayer = this.gameState.players.find(p => p.id === client.playerId);
+    if (!requestingPlayer?.isHost) {
+      this.sendError(client.ws, 'Only the host can add bots', 'NOT_HOST');
+      return;
+    }
+
+    const strategy = this.botStrategies.get(payload.strategyId);
+    if (!strategy) {
+      this.sendError(client.ws, 'Unknown bot strategy', 'BOT_ERROR');
+      return;
+    }
+
+    try {
+      const bot = {
+        ...createPlayer(getBotName(this.gameState.players.map(p => p.name)), false, 'bot'),
+        botStrategyId: strategy.id
+      };
+
+      // Validate the seat before recording anything
+      const withBot = addPlayer(this.gameState, bot);
+      const seatedState = selectSlot(withBot, bot.id, payload.slot);
+
+      this.applyAction(
+        { type: 'add_player', playerId: bot.id, playerName: bot.name, isHost: false, ip: bot.ip, botStrategyId: strategy.id },
+        withBot
+      );
+      this.applyAction({ type: 'select_slot', playerId: bot.id, slot: payload.slot }, seatedState);
+      this.bots.set(bot.id, { strategy, knowledge: {}, isStandIn: false });
+      this.recordEvent({ type: 'player_joined', playerId: bot.id, playerName: bot.name });
+      this.recordEvent({ type: 'slot_selected', playerId: bot.id, slot: payload.slot });
+
+      this.broadcast({
+        type: 'player_joined',
+        payload: {
+          playerId: bot.id,
+          playerName: bot.name,
+          gameState: this.getPublicGameState()
+        }
+      });
+
+      console.log(`[Session ${this.name}] ${client.playerName} added ${strategy.name} bot ${bot.name} to slot ${payload.slot}`);
+      this.onSessionUpdate();
+    } catch (error: any) {
+      this.sendError(client.ws, error.message, error.message === 'Slot is already taken' ? 'SLOT_TAKEN' : 'BOT_ERROR');
+    }
+  }
+
   private sendPrivateInfo(playerId: string): void {
     const player = this.gameState.players.find(p => p.id === playerId);
     if (!player) return;
@@ -1052,7 +1382,8 @@ export class GameSession {
 
     const privateInfo: PrivateInfoPayload = {
       dice: player.dice,
-      cards: player.cards
+      cards: player.cards,
+      playableCardIds: getPlayableCardsForPlayer(this.gameState, playerId).map(c => c.id)
     };
 
     this.send(client.ws, {
@@ -1067,11 +1398,909 @@ export class GameSession {
     }
   }
 
-  private send(ws: WebSocket, message: ServerMessage): void {
-    this.sendToClient(ws, message);
+  private handleGetGameEvents(clientId: string, payload: GetGameEventsPayload): void {
+    const client = this.clients.get(clientId);
+    if (!client) return;
+
+    this.send(client.ws, {
+      type: 'game_events',
+      payload: { events: this.getGameEvents(client.playerId, payload.sinceSeq) }
+    });
+  }
+
+  /**
+   * Commit a state change produced by the shared reducers and record the action behind it,
+   * so the session can be rebuilt with reconstructGameState
+   */
+  private applyAction(action: GameAction, newState: GameState): void {
+    this.gameState = newState;
+    this.actionLog.push(action);
+    this.currentMatch?.actions.push(action);
+    this.syncTurnTimer();
+    this.syncTimeBanks(action);
+    this.syncAbsences();
+    this.syncHostMigration();
+    this.scheduleBots();
+  }
+
+  /**
+   * The public state plus the bidding clocks
+   */
+  private getPublicGameState(): PublicGameState {
+    return toPublicGameState(this.gameState, this.getTurnTimer(), this.getTimeBanks(), this.getPlayerNetwork());
+  }
+
+  private getPlayerNetwork(): Record<string, PlayerNetworkInfo> {
+    const network: Record<string, PlayerNetworkInfo> = {};
+    for (const player of this.gameState.players) {
+      network[player.id] = {
+        ip: this.ipVisibility === 'everyone' ? player.ip : null,
+        fingerprint: this.getFingerprint(player.ip)
+      };
+    }
+    return network;
+  }
+
+  private getFingerprint(ip: string): string {
+    return createHmac('sha256', this.fingerprintKey).update(ip).digest('hex').slice(0, 8);
+  }
+
+  /**
+   * With host-only IP visibility, fill the IPs into game states sent to the host
+   */
+  private withHostIps(ws: WebSocket, message: ServerMessage): ServerMessage {
+    if (this.ipVisibility !== 'host' || !('gameState' in message.payload) || !message.payload.gameState) return message;
+    const client = Array.from(this.clients.values()).find(c => c.ws === ws);
+    const isHost = !!client && this.gameState.players.some(p => p.id === client.playerId && p.isHost);
+    if (!isHost) return message;
+
+    const gameState = message.payload.gameState;
+    return withGameState(message, {
+      ...gameState,
+      players: gameState.players.map(p => ({
+        ...p,
+        ip: this.gameState.players.find(player => player.id === p.id)?.ip ?? null
+      }))
+    });
+  }
+
+  /**
+   * Identifies the turn being played: a new bid, bidder or round is a new turn
+   */
+  private getTurnKey(): string | null {
+    const currentPlayer = getCurrentPlayer(this.gameState);
+    if (!currentPlayer) return null;
+    return `${this.gameState.roundNumber}:${this.gameState.previousBids.length}:${currentPlayer.id}`;
+  }
+
+  /**
+   * Start recording a match: replay begins from the lobby as it was when the game started
+   */
+  private beginMatch(lobbyState: GameState, seed: string): void {
+    // Players outnumber maxPlayers when the host lowered it after they joined, so the replay
+    // adds them with room for everyone and then applies the host's limit
+    const settings = { ...lobbyState.settings, maxPlayers: Math.max(lobbyState.settings.maxPlayers, lobbyState.players.length) };
+    const setupActions: GameAction[] = [];
+    for (const player of lobbyState.players) {
+      setupActions.push({
+        type: 'add_player',
+        playerId: player.id,
+        playerName: player.name,
+        isHost: player.isHost,
+        ip: player.ip,
+        botStrategyId: player.botStrategyId ?? undefined
+      });
+      if (player.slot !== null) {
+        setupActions.push({ type: 'select_slot', playerId: player.id, slot: player.slot });
+      }
+    }
+    if (settings.maxPlayers !== lobbyState.settings.maxPlayers) {
+      setupActions.push({ type: 'update_settings', settings: { maxPlayers: lobbyState.settings.maxPlayers } });
+    }
+    for (const player of lobbyState.players) {
+      if (!player.isConnected) {
+        setupActions.push({ type: 'set_connected', playerId: player.id, isConnected: false });
+      }
+    }
+
+    this.currentMatch = {
+      sessionId: this.id,
+      gameNumber: this.gameNumber,
+      settings,
+      seed,
+      actions: [...setupActions, { type: 'start_game', seed }],
+      startedAt: Date.now(),
+      endedAt: null
+    };
+    this.matches.push(this.currentMatch);
+  }
+
+  private endMatch(): void {
+    if (this.currentMatch) {
+      this.currentMatch.endedAt = Date.now();
+      this.currentMatch = null;
+    }
+  }
+
+  /**
+   * Append an event to the session log
+   */
+  private recordEvent(event: NewGameEvent): void {
+    this.eventLog.push({
+      ...event,
+      seq: this.eventLog.length,
+      timestamp: Date.now(),
+      gameNumber: this.gameNumber
+    });
+  }
+
+  private recordRoundStarted(): void {
+    const playersWithDice = this.gameState.players.filter(p => p.dice.length > 0);
+    this.recordEvent({
+      type: 'round_started',
+      roundNumber: this.gameState.roundNumber,
+      startingPlayerId: getCurrentPlayer(this.gameState)!.id,
+      roundModifier: this.gameState.roundModifier,
+      diceCounts: playersWithDice.map(p => ({ playerId: p.id, count: p.dice.length })),
+      privateDetails: playersWithDice.map(p => ({ visibleTo: [p.id], data: { playerId: p.id, dice: p.dice } }))
+    });
+  }
+
+  /**
+   * Record eliminations and game over caused by settling a round
+   */
+  private recordRoundOutcome(previousState: GameState): void {
+    for (const player of this.gameState.players) {
+      const wasEliminated = previousState.players.find(p => p.id === player.id)?.isEliminated;
+      if (player.isEliminated && !wasEliminated) {
+        this.recordEvent({ type: 'player_eliminated', playerId: player.id });
+      }
+    }
+    if (this.gameState.phase === 'game_over') {
+      this.recordEvent({ type: 'game_over', winnerId: this.gameState.winnerId });
+      this.endMatch();
+    }
+  }
+
+  /**
+   * Record a card play; targets and results stay with the player, changed hands with their owners
+   */
+  private recordCardPlayed(
+    playerId: string,
+    card: Card,
+    payload: PlayCardPayload,
+    previousState: GameState,
+    privateResult: CardResult | undefined
+  ): void {
+    const privateDetails: PrivateEventDetail<CardPlayedPrivateData>[] = [{
+      visibleTo: [playerId],
+      data: { targetDieId: payload.targetDieId, additionalData: payload.additionalData, result: privateResult }
+    }];
+
+    for (const player of this.gameState.players) {
+      const previousDice = previousState.players.find(p => p.id === player.id)?.dice;
+      if (previousDice && JSON.stringify(previousDice) !== JSON.stringify(player.dice)) {
+        privateDetails.push({
+          visibleTo: [player.id],
+          data: { updatedHand: { playerId: player.id, dice: player.dice } }
+        });
+      }
+    }
+
+    this.recordEvent({
+      type: 'card_played',
+      playerId,
+      cardId: card.id,
+      cardType: card.type,
+      cardName: card.name,
+      targetPlayerId: payload.targetPlayerId ?? null,
+      privateDetails
+    });
+  }
+
+  private sendCardResult(ws: WebSocket | null, playerId: string, card: Card, result: CardResult): CardResult {
+    this.send(ws, {
+      type: 'card_played',
+      payload: {
+        playerId,
+        cardType: card.type,
+        cardName: card.name,
+        result
+      }
+    });
+    return result;
+  }
+
+  /**
+   * Commit to every hand rolled for a new round, replacing the previous round's commitments
+   */
+  private commitRoundDice(): DiceCommitment[] {
+    this.diceCommitments = [];
+    for (const bot of this.bots.values()) {
+      bot.knowledge = {};
+    }
+    for (const player of this.gameState.players) {
+      if (player.dice.length > 0) {
+        this.addDiceCommitment(player, 0);
+      }
+    }
+    return this.diceCommitments.map(entry => entry.commitment);
+  }
+
+  /**
+   * Publish new commitments for hands changed by a card, so the chain stays verifiable
+   */
+  private commitChangedDice(playerIds: string[]): void {
+    const commitments: DiceCommitment[] = [];
+    for (const playerId of playerIds) {
+      // Everyone sees the new commitment, so bots know what they learned about this hand is stale
+      for (const bot of this.bots.values()) {
+        delete bot.knowledge[playerId];
+      }
+
+      const player = this.gameState.players.find(p => p.id === playerId);
+      if (!player) continue;
+      const version = this.diceCommitments.filter(entry => entry.commitment.playerId === playerId).length;
+      commitments.push(this.addDiceCommitment(player, version));
+    }
+
+    this.broadcast({
+      type: 'dice_commitments',
+      payload: {
+        roundNumber: this.gameState.roundNumber,
+        commitments
+      }
+    });
+  }
+
+  private addDiceCommitment(player: Player, version: number): DiceCommitment {
+    const salt = randomBytes(16).toString('hex');
+    const commitment = createDiceCommitment(player.id, version, player.dice, salt);
+    this.diceCommitments.push({
+      commitment,
+      reveal: { playerId: player.id, version, dice: player.dice, salt }
+    });
+    return commitment;
+  }
+
+  /**
+   * Open every commitment made this round (called once the round is settled)
+   */
+  private revealDice(): DiceReveal[] {
+    return this.diceCommitments.map(entry => entry.reveal);
+  }
+
+  /**
+   * Find who a handler acts for; moves the server makes for a seat (bots, timed-out turns)
+   * use a clientId made from the playerId
+   */
+  private getActor(clientId: string): SessionActor | undefined {
+    const client = this.clients.get(clientId);
+    if (client) return client;
+
+    if (!clientId.startsWith(SERVER_ACTOR_PREFIX)) return undefined;
+    const playerId = clientId.slice(SERVER_ACTOR_PREFIX.length);
+    const player = this.gameState.players.find(p => p.id === playerId);
+    if (!player) return undefined;
+    return { ws: null, playerId: player.id, playerName: player.name };
+  }
+
+  // ============================================
+  // Turn Timer
+  // ============================================
+
+  /**
+   * Start, freeze, resume or stop the bidder's clock to match the state after an action.
+   * A new bid or a new round starts a fresh clock; card plays leave it running.
+   */
+  private syncTurnTimer(): void {
+    const state = this.gameState;
+    const timer = this.turnTimer;
+
+    if (state.phase === 'paused') {
+      if (timer && timer.deadline !== null) {
+        this.clearTurnTimeout(timer);
+        timer.remainingMs = Math.max(0, timer.deadline - Date.now());
+        timer.deadline = null;
+      }
+      return;
+    }
+
+    const currentPlayer = getCurrentPlayer(state);
+    const key = this.getTurnKey();
+    const limitMs = state.settings.turnTimeLimit * 1000;
+    if (state.phase !== 'bidding' || limitMs <= 0 || !currentPlayer || !key) {
+      this.stopTurnTimer();
+      return;
+    }
+
+    if (timer && timer.key === key) {
+      if (timer.deadline === null) {
+        this.startTurnTimeout(timer); // Resumed after a pause
+      }
+      return;
+    }
+
+    this.stopTurnTimer();
+    this.turnTimer = {
+      key,
+      playerId: currentPlayer.id,
+      durationMs: limitMs,
+      remainingMs: limitMs,
+      deadline: null,
+      timeout: null
+    };
+    this.startTurnTimeout(this.turnTimer);
+  }
+
+  private startTurnTimeout(timer: SessionTurnTimer): void {
+    timer.deadline = Date.now() + timer.remainingMs;
+    timer.timeout = setTimeout(() => {
+      timer.timeout = null;
+      if (this.turnTimer === timer) {
+        this.turnTimer = null;
+        this.handleTurnTimeout(timer.playerId);
+      }
+    }, timer.remainingMs);
+  }
+
+  private clearTurnTimeout(timer: SessionTurnTimer): void {
+    if (timer.timeout) {
+      clearTimeout(timer.timeout);
+      timer.timeout = null;
+    }
+  }
+
+  private stopTurnTimer(): void {
+    if (this.turnTimer) {
+      this.clearTurnTimeout(this.turnTimer);
+      this.turnTimer = null;
+    }
+  }
+
+  private getTurnTimer(): TurnTimer | null {
+    const timer = this.turnTimer;
+    if (!timer) return null;
+    return {
+      playerId: timer.playerId,
+      durationMs: timer.durationMs,
+      remainingMs: timer.deadline !== null ? Math.max(0, timer.deadline - Date.now()) : timer.remainingMs,
+      deadline: timer.deadline
+    };
+  }
+
+  /**
+   * Move for a bidder who ran out of time, as the host configured: Dudo on the standing bid
+   * (the smallest opening bid when there is none yet), the smallest legal raise, or losing a die.
+   * If the move is rejected the player loses a die instead; everyone is told which move was made.
+   */
+  private handleTurnTimeout(playerId: string): void {
+    const player = getCurrentPlayer(this.gameState);
+    if (this.gameState.phase !== 'bidding' || !player || player.id !== playerId) return;
+
+    const timeoutAction = this.gameState.settings.turnTimeoutAction;
+    const clientId = `${SERVER_ACTOR_PREFIX}${playerId}`;
+    const actionCount = this.actionLog.length;
+
+    if (timeoutAction === 'dudo' && this.gameState.currentBid) {
+      this.handleCallDudo(clientId, {});
+    } else if (timeoutAction !== 'lose_die') {
+      const bid = getMinimumRaise(this.gameState, playerId);
+      this.handleMakeBid(clientId, { quantity: bid.quantity, faceValue: bid.faceValue });
+    }
+
+    if (this.actionLog.length !== actionCount) {
+      const performed: TurnTimeoutAction = this.actionLog[actionCount].type === 'call_dudo' ? 'dudo' : 'min_raise';
+      this.recordEvent({ type: 'turn_timeout', playerId, timeoutAction: performed });
+      this.broadcast({
+        type: 'turn_timeout',
+        payload: { playerId, playerName: player.name, timeoutAction: performed }
+      });
+      console.log(`[Session ${this.name}] ${player.name} ran out of time (${performed})`);
+      return;
+    }
+
+    this.forfeitTurn(playerId, player.name);
+  }
+
+  /**
+   * The timed-out bidder loses a die and the round ends, with every hand revealed
+   */
+  private forfeitTurn(playerId: string, playerName: string): void {
+    try {
+      const stateBeforeResult = this.gameState;
+      this.applyAction({ type: 'forfeit_die', playerId }, forfeitDie(this.gameState, playerId));
+      this.recordEvent({ type: 'turn_timeout', playerId, timeoutAction: 'lose_die' });
+      this.recordRoundOutcome(stateBeforeResult);
+
+      this.broadcast({
+        type: 'turn_timeout',
+        payload: {
+          playerId,
+          playerName,
+          timeoutAction: 'lose_die',
+          revealedDice: stateBeforeResult.players
+            .filter(p => !p.isEliminated && p.dice.length > 0)
+            .map(p => ({ playerId: p.id, dice: p.dice })),
+          reveals: this.revealDice(),
+          gameState: this.getPublicGameState()
+        }
+      });
+
+      // Check for game over
+      if (this.gameState.phase === 'game_over') {
+        const winner = this.gameState.players.find(p => p.id === this.gameState.winnerId);
+        this.broadcast({
+          type: 'game_over',
+          payload: {
+            winnerId: this.gameState.winnerId,
+            winnerName: winner?.name,
+            gameNumber: this.gameNumber, // Replay with GET /api/sessions/:sessionId/matches/:gameNumber
+            gameState: this.getPublicGameState()
+          }
+        });
+      }
+
+      console.log(`[Session ${this.name}] ${playerName} ran out of time and forfeits a die`);
+      this.onSessionUpdate();
+    } catch (error: any) {
+      console.warn(`[Session ${this.name}] Turn timeout for ${playerName} failed: ${error.message}`);
+    }
+  }
+
+  // ============================================
+  // Time Banks
+  // ============================================
+
+  /**
+   * Charge the running chess clock and start the bidder's. Every player's bank is filled when
+   * a game starts; a player gets the increment for each bid or call that ends their turn.
+   */
+  private syncTimeBanks(action: GameAction): void {
+    const state = this.gameState;
+    const clock = this.timeBankClock;
+    const key = this.getTurnKey();
+
+    if (action.type === 'start_game') {
+      this.stopTimeBankClock();
+      this.timeBanks.clear();
+      if (state.settings.timeBank > 0) {
+        for (const player of state.players) {
+          if (!player.isEliminated && player.dice.length > 0) {
+            this.timeBanks.set(player.id, state.settings.timeBank * 1000);
+          }
+        }
+      }
+    } else if (action.type === 'new_game') {
+      this.stopTimeBankClock();
+      this.timeBanks.clear();
+      return;
+    }
+
+    const running = state.phase === 'bidding' && key !== null;
+    if (clock && running && clock.key === key) return; // Same turn, keep charging
+
+    this.stopTimeBankClock();
+    if (clock && 'playerId' in action && action.playerId === clock.playerId && action.type !== 'play_card') {
+      const player = state.players.find(p => p.id === clock.playerId);
+      const bank = this.timeBanks.get(clock.playerId);
+      if (player && !player.isEliminated && bank !== undefined) {
+        this.timeBanks.set(clock.playerId, bank + state.settings.timeBankIncrement * 1000);
+      }
+    }
+
+    const currentPlayer = getCurrentPlayer(state);
+    const bank = currentPlayer ? this.timeBanks.get(currentPlayer.id) : undefined;
+    if (!running || !currentPlayer || bank === undefined || key === null) return;
+
+    const playerId = currentPlayer.id;
+    this.timeBankClock = {
+      key,
+      playerId,
+      startedAt: Date.now(),
+      timeout: setTimeout(() => this.handleTimeBankExpired(playerId), bank)
+    };
+  }
+
+  /**
+   * Stop the chess clock, charging the time used to the player's bank
+   */
+  private stopTimeBankClock(): void {
+    const clock = this.timeBankClock;
+    if (!clock) return;
+    clearTimeout(clock.timeout);
+    this.timeBankClock = null;
+
+    const bank = this.timeBanks.get(clock.playerId);
+    if (bank !== undefined) {
+      this.timeBanks.set(clock.playerId, Math.max(0, bank - (Date.now() - clock.startedAt)));
+    }
+  }
+
+  private getTimeBanks(): Record<string, PlayerTimeBank> {
+    const clock = this.timeBankClock;
+    const timeBanks: Record<string, PlayerTimeBank> = {};
+    for (const [playerId, bank] of this.timeBanks) {
+      const running = clock?.playerId === playerId;
+      timeBanks[playerId] = {
+        remainingMs: running ? Math.max(0, bank - (Date.now() - clock!.startedAt)) : bank,
+        running
+      };
+    }
+    return timeBanks;
+  }
+
+  /**
+   * A player whose bank ran out is eliminated; the game goes on without them
+   */
+  private handleTimeBankExpired(playerId: string): void {
+    const clock = this.timeBankClock;
+    if (!clock || clock.playerId !== playerId) return;
+    this.timeBankClock = null;
+    this.timeBanks.set(playerId, 0);
+
+    const player = this.gameState.players.find(p => p.id === playerId);
+    if (!player) return;
+
+    try {
+      this.eliminateFromGame(playerId, () => {
+        this.recordEvent({ type: 'time_bank_expired', playerId });
+        this.broadcast({
+          type: 'time_bank_expired',
+          payload: {
+            playerId,
+            playerName: player.name,
+            gameState: this.getPublicGameState()
+          }
+        });
+      });
+      console.log(`[Session ${this.name}] ${player.name} ran out of time and is eliminated`);
+    } catch (error: any) {
+      console.warn(`[Session ${this.name}] Time bank expiry for ${player.name} failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Take a player out of a game in progress; `announce` records and broadcasts why
+   */
+  private eliminateFromGame(playerId: string, announce: () => void): void {
+    const stateBeforeResult = this.gameState;
+    this.applyAction({ type: 'eliminate_player', playerId }, eliminatePlayer(this.gameState, playerId));
+    announce();
+    this.recordRoundOutcome(stateBeforeResult);
+
+    // Check for game over
+    if (this.gameState.phase === 'game_over') {
+      const winner = this.gameState.players.find(p => p.id === this.gameState.winnerId);
+      this.broadcast({
+        type: 'game_over',
+        payload: {
+          winnerId: this.gameState.winnerId,
+          winnerName: winner?.name,
+          gameNumber: this.gameNumber, // Replay with GET /api/sessions/:sessionId/matches/:gameNumber
+          gameState: this.getPublicGameState()
+        }
+      });
+    }
+
+    // Their hand is gone, and the turn may have moved on
+    this.sendPrivateInfoToAll();
+    this.onSessionUpdate();
+  }
+
+  // ============================================
+  // Disconnected Players
+  // ============================================
+
+  /**
+   * Wait for every disconnected player in a game: first the grace period, then (with their seat
+   * skipped or played by a stand-in bot) until they forfeit. The waits stop while the game is paused.
+   */
+  private syncAbsences(): void {
+    const state = this.gameState;
+    const inGame = state.phase !== 'lobby' && state.phase !== 'game_over';
+
+    // Stop waiting for players who came back, left or are out of the game
+    for (const [playerId, absence] of this.absences) {
+      const player = state.players.find(p => p.id === playerId);
+      if (!inGame || !player || player.isConnected || player.isEliminated) {
+        this.clearAbsenceTimeout(absence);
+        this.absences.delete(playerId);
+      }
+    }
+
+    // Stand-in bots hand the seat back as soon as it is no longer auto-played
+    for (const [playerId, bot] of this.bots) {
+      const player = state.players.find(p => p.id === playerId);
+      if (bot.isStandIn && (!inGame || !player || player.isEliminated || player.awayMode !== 'bot')) {
+        this.bots.delete(playerId);
+      }
+    }
+    if (!inGame) return;
+
+    for (const player of state.players) {
+      if (player.isConnected || player.isEliminated || player.botStrategyId !== null) continue;
+
+      if (!this.absences.has(player.id)) {
+        this.absences.set(player.id, {
+          awayMode: player.awayMode,
+          remainingMs: this.getAbsenceWaitMs(player.awayMode),
+          deadline: null,
+          timeout: null
+        });
+      }
+      if (player.awayMode === 'bot' && !this.bots.has(player.id)) {
+        const strategy = this.botStrategies.get(DEFAULT_BOT_STRATEGY_ID) ??
+          BUILT_IN_BOT_STRATEGIES.find(s => s.id === DEFAULT_BOT_STRATEGY_ID)!;
+        this.bots.set(player.id, { strategy, knowledge: {}, isStandIn: true });
+      }
+    }
+
+    for (const [playerId, absence] of this.absences) {
+      if (state.phase === 'paused') {
+        if (absence.deadline !== null) {
+          this.clearAbsenceTimeout(absence);
+          absence.remainingMs = Math.max(0, absence.deadline - Date.now());
+          absence.deadline = null;
+        }
+      } else if (absence.deadline === null && absence.remainingMs !== null) {
+        absence.deadline = Date.now() + absence.remainingMs;
+        absence.timeout = setTimeout(() => this.handleAbsenceTimeout(playerId), absence.remainingMs);
+      }
+    }
+  }
+
+  /**
+   * How long to wait in a stage of an absence: the grace period, or the time until forfeiting
+   */
+  private getAbsenceWaitMs(awayMode: DisconnectAction | null): number | null {
+    const seconds = awayMode === null
+      ? this.gameState.settings.disconnectGracePeriod
+      : this.gameState.settings.disconnectForfeitTime;
+    return seconds > 0 ? seconds * 1000 : null;
+  }
+
+  private clearAbsenceTimeout(absence: SessionAbsence): void {
+    if (absence.timeout) {
+      clearTimeout(absence.timeout);
+      absence.timeout = null;
+    }
+  }
+
+  /**
+   * The grace period is over (the seat is now skipped or auto-played), or the player never
+   * came back and forfeits the game
+   */
+  private handleAbsenceTimeout(playerId: string): void {
+    const absence = this.absences.get(playerId);
+    const player = this.gameState.players.find(p => p.id === playerId);
+    if (!absence || !player) return;
+    absence.timeout = null;
+
+    try {
+      if (absence.awayMode === null) {
+        const awayMode = this.gameState.settings.disconnectAction;
+        absence.awayMode = awayMode;
+        absence.remainingMs = this.getAbsenceWaitMs(awayMode);
+        absence.deadline = null;
+
+        this.applyAction({ type: 'set_away', playerId, awayMode }, setPlayerAway(this.gameState, playerId, awayMode));
+        this.recordEvent({ type: 'player_away', playerId, awayMode });
+        this.broadcast({
+          type: 'player_away',
+          payload: {
+            playerId,
+            playerName: player.name,
+            awayMode,
+            gameState: this.getPublicGameState()
+          }
+        });
+
+        // The turn may have moved on
+        this.sendPrivateInfoToAll();
+        console.log(`[Session ${this.name}] ${player.name} is away; their seat is ${awayMode === 'bot' ? 'played by a bot' : 'skipped'}`);
+        return;
+      }
+
+      this.absences.delete(playerId);
+      this.eliminateFromGame(playerId, () => {
+        this.recordEvent({ type: 'player_forfeited', playerId });
+        this.broadcast({
+          type: 'player_forfeited',
+          payload: {
+            playerId,
+            playerName: player.name,
+            gameState: this.getPublicGameState()
+          }
+        });
+      });
+      console.log(`[Session ${this.name}] ${player.name} never came back and forfeits`);
+    } catch (error: any) {
+      console.warn(`[Session ${this.name}] Absence timeout for ${player.name} failed: ${error.message}`);
+    }
+  }
+
+  // ============================================
+  // Host Migration
+  // ============================================
+
+  /**
+   * While the host is disconnected (or gone), wait a while and then hand host status to the
+   * player who has been connected the longest
+   */
+  private syncHostMigration(): void {
+    const host = this.gameState.players.find(p => p.isHost);
+    if (host?.isConnected || this.gameState.players.length === 0) {
+      if (this.hostMigrationTimer) {
+        clearTimeout(this.hostMigrationTimer);
+        this.hostMigrationTimer = null;
+      }
+      return;
+    }
+
+    if (!this.hostMigrationTimer) {
+      this.hostMigrationTimer = setTimeout(() => {
+        this.hostMigrationTimer = null;
+        this.migrateHost();
+      }, HOST_MIGRATION_DELAY_MS);
+    }
+  }
+
+  private migrateHost(): void {
+    const host = this.gameState.players.find(p => p.isHost);
+    if (host?.isConnected) return;
+
+    // Bots never host; with nobody connected, the wait starts again when someone returns
+    const candidates = this.gameState.players
+      .filter(p => p.isConnected && p.botStrategyId === null && this.connectedSince.has(p.id))
+      .sort((a, b) => this.connectedSince.get(a.id)! - this.connectedSince.get(b.id)!);
+    if (candidates.length === 0) return;
+
+    try {
+      this.changeHost(candidates[0].id, 'migration');
+    } catch (error: any) {
+      console.warn(`[Session ${this.name}] Host migration failed: ${error.message}`);
+    }
+  }
+
+  private changeHost(playerId: string, reason: HostChangeReason): void {
+    const previousHost = this.gameState.players.find(p => p.isHost);
+    this.applyAction({ type: 'set_host', playerId }, setHost(this.gameState, playerId));
+    const newHost = this.gameState.players.find(p => p.id === playerId)!;
+    this.recordEvent({ type: 'host_changed', playerId, previousHostId: previousHost?.id ?? null, reason });
+
+    this.broadcast({
+      type: 'host_changed',
+      payload: {
+        hostId: newHost.id,
+        hostName: newHost.name,
+        previousHostId: previousHost?.id ?? null,
+        reason,
+        gameState: this.getPublicGameState()
+      }
+    });
+
+    console.log(`[Session ${this.name}] ${newHost.name} is now the host (${reason})`);
+    this.onSessionUpdate();
+  }
+
+  // ============================================
+  // Bot Players
+  // ============================================
+
+  /**
+   * Give the bots a moment to "think" after every change while a round is being bid
+   */
+  private scheduleBots(): void {
+    if (this.botTimer) {
+      clearTimeout(this.botTimer);
+      this.botTimer = null;
+    }
+    if (this.bots.size === 0 || this.gameState.phase !== 'bidding') return;
+
+    this.botTimer = setTimeout(() => {
+      this.botTimer = null;
+      this.runBots();
+    }, BOT_THINK_TIME_MS + Math.random() * BOT_THINK_JITTER_MS);
   }
 
-  private sendError(ws: WebSocket, message: string, code: string): void {
+  /**
+   * Let one bot act: the bot whose turn it is, or another bot calling Calza.
+   * Every accepted action goes through applyAction, which schedules the next step.
+   */
+  private runBots(): void {
+    const currentPlayerId = getCurrentPlayer(this.gameState)?.id;
+
+    for (const [playerId, bot] of this.bots) {
+      const observation = createBotObservation(this.gameState, playerId, bot.knowledge);
+      const decision = this.decideForBot(bot, observation);
+      const actionCount = this.actionLog.length;
+
+      if (decision) {
+        this.performBotDecision(playerId, decision);
+        if (this.actionLog.length !== actionCount) return;
+      }
+
+      // No usable move on its own turn; fall back to a plain challenge or opening bid so the game never stalls
+      if (playerId === currentPlayerId) {
+        this.performBotDecision(playerId, getFallbackBotDecision(observation));
+        if (this.actionLog.length !== actionCount) return;
+      }
+    }
+  }
+
+  /**
+   * Ask a bot's strategy for a move, treating a crash or a malformed answer as no move
+   */
+  private decideForBot(bot: SessionBot, observation: BotObservation): BotDecision | null {
+    try {
+      const decision = bot.strategy.decide(observation, Math.random);
+      if (decision === null || decision === undefined) return null;
+      if (!isBotDecision(decision)) {
+        console.warn(`[Session ${this.name}] Bot strategy "${bot.strategy.id}" returned an invalid decision`);
+        return null;
+      }
+      return decision;
+    } catch (error: any) {
+      console.warn(`[Session ${this.name}] Bot strategy "${bot.strategy.id}" failed: ${error?.message ?? error}`);
+      return null;
+    }
+  }
+
+  /**
+   * Play a bot's move through the same handlers (and reducers) as a human's
+   */
+  private performBotDecision(playerId: string, decision: BotDecision): void {
+    const clientId = `${SERVER_ACTOR_PREFIX}${playerId}`;
+    switch (decision.type) {
+      case 'make_bid':
+        this.handleMakeBid(clientId, { quantity: decision.quantity, faceValue: decision.faceValue });
+        break;
+      case 'call_dudo':
+        this.handleCallDudo(clientId, { targetBidIndex: decision.targetBidIndex });
+        break;
+      case 'call_jonti':
+        this.handleCallJonti(clientId);
+        break;
+      case 'call_calza':
+        this.handleCallCalza(clientId);
+        break;
+      case 'play_card':
+        this.handlePlayCard(clientId, decision.card);
+        break;
+    }
+  }
+
+  /**
+   * Stop scheduled bot moves, the clocks and the host migration wait (when the session is deleted)
+   */
+  public dispose(): void {
+    if (this.botTimer) {
+      clearTimeout(this.botTimer);
+      this.botTimer = null;
+    }
+    this.stopTurnTimer();
+    this.stopTimeBankClock();
+    for (const absence of this.absences.values()) {
+      this.clearAbsenceTimeout(absence);
+    }
+    this.absences.clear();
+    if (this.hostMigrationTimer) {
+      clearTimeout(this.hostMigrationTimer);
+      this.hostMigrationTimer = null;
+    }
+  }
+
+  private send(ws: WebSocket | null, message: ServerMessage): void {
+    if (!ws) return; // Bot seats have no socket
+    this.sendToClient(ws, this.withHostIps(ws, message));
+  }
+
+  private sendError(ws: WebSocket | null, message: string, code: string): void {
+    if (!ws) {
+      console.warn(`[Session ${this.name}] Server move rejected (${code}): ${message}`);
+      return;
+    }
     this.send(ws, {
       type: 'error',
       payload: { message, code }
@@ -1081,7 +2310,7 @@ export class GameSession {
   public broadcastGameState(): void {
     this.broadcast({
       type: 'game_state_update',
-      payload: { gameState: toPublicGameState(this.gameState) }
+      payload: { gameState: this.getPublicGameState() }
     });
   }
 
@@ -1089,6 +2318,9 @@ export class GameSession {
     for (const client of this.clients.values()) {
       this.send(client.ws, message);
     }
+    for (const spectator of this.spectators.values()) {
+      this.send(spectator.ws, message);
+    }
   }
 
   private broadcastExcept(excludeClientId: string, message: ServerMessage): void {
@@ -1097,48 +2329,15 @@ export class GameSession {
         this.send(client.ws, message);
       }
     }
-  }
-
-  private applyBlindSwap(playerId: string, myDieId: string, targetPlayerId: string): GameState {
-    const targetPlayer = this.gameState.players.find(p => p.id === targetPlayerId);
-    if (!targetPlayer || targetPlayer.dice.length === 0) {
-      throw new Error('Target player has no dice');
-    }
-    
-    const player = this.gameState.players.find(p => p.id === playerId);
-    if (!player) {
-      throw new Error('Player not found');
-    }
-    
-    const myDie = player.dice.find(d => d.id === myDieId);
-    if (!myDie) {
-      throw new Error('Die not found');
-    }
-    
-    const randomIndex = Math.floor(Math.random() * targetPlayer.dice.length);
-    const targetDie = targetPlayer.dice[randomIndex];
-    
-    const updatedPlayers = this.gameState.players.map(p => {
-      if (p.id === playerId) {
-        return {
-          ...p,
-          dice: p.dice.map(d => d.id === myDieId ? { ...targetDie, id: d.id } : d)
-        };
-      }
-      if (p.id === targetPlayerId) {
-        return {
-          ...p,
-          dice: p.dice.map((d, i) => i === randomIndex ? { ...myDie, id: d.id } : d)
-        };
+    for (const [clientId, spectator] of this.spectators.entries()) {
+      if (clientId !== excludeClientId) {
+        this.send(spectator.ws, message);
       }
-      return p;
-    });
-    
-    return { ...this.gameState, players: updatedPlayers };
+    }
   }
 
   public isEmpty(): boolean {
-    return this.gameState.players.every(p => !p.isConnected);
+    return this.gameState.players.every(p => !p.isConnected || p.botStrategyId !== null);
   }
 
   public isStale(maxAgeMs: number = 3600000): boolean {
@@ -6,6 +6,7 @@
 import WebSocket, { WebSocketServer } from 'ws';
 import http from 'http';
 import express from 'express';
+import { randomBytes } from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
 import {
   GameSettings,
@@ -13,24 +14,47 @@ import {
   ServerMessage,
   SessionInfo,
   CreateSessionPayload,
-  JoinSessionPayload
+  JoinSessionPayload,
+  RegisterPayload,
+  UpdateSessionSettingsPayload,
+  IpVisibility
 } from '../shared/types';
 import { GameSession } from './GameSession';
+import { BotStrategyRegistry } from './BotStrategyRegistry';
+import { validateClientMessage } from './validation';
 
 interface ConnectedClient {
   ws: WebSocket;
-  identityId: string;      // Persistent identity across reconnects
+  identityId: string;      // Client-supplied and unverified; reconnection uses seat tokens instead
   playerName: string | null;
   ip: string;
   currentSessionId: string | null;
   previousSessionId: string | null;  // For reconnection tracking
 }
 
+interface FailedJoins {
+  count: number;
+  windowStart: number;
+}
+
+const INVITE_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // No 0/O or 1/I lookalikes
+const INVITE_CODE_LENGTH = 6;
+const MAX_FAILED_JOINS = 5;
+const FAILED_JOIN_WINDOW_MS = 60 * 1000;
+
 const DEFAULT_SETTINGS: GameSettings = {
   mode: 'tactical',
   maxPlayers: 6,
   enableCalza: false,
-  enableLastStand: false
+  enableLastStand: false,
+  allowOddsOverlay: true,
+  turnTimeLimit: 0,
+  turnTimeoutAction: 'min_raise',
+  timeBank: 0,
+  timeBankIncrement: 0,
+  disconnectGracePeriod: 60,
+  disconnectAction: 'skip',
+  disconnectForfeitTime: 300
 };
 
 export class SessionManager {
@@ -39,13 +63,24 @@ export class SessionManager {
   private wss: WebSocketServer;
   private sessions: Map<string, GameSession> = new Map();
   private clients: Map<string, ConnectedClient> = new Map(); // clientId -> ConnectedClient
-  private identityToSession: Map<string, string> = new Map(); // identityId -> sessionId (for reconnection)
+  private failedJoins: Map<string, FailedJoins> = new Map(); // ip -> wrong passwords and unknown sessions/codes
   private port: number;
   private publicIp: string = '';
   private cleanupInterval: NodeJS.Timeout | null = null;
-
-  constructor(port: number) {
+  private botStrategies: BotStrategyRegistry;
+  private ipVisibility: IpVisibility;
+  private trustProxy: boolean; // Whether X-Forwarded-For comes from our own reverse proxy
+
+  constructor(
+    port: number,
+    botStrategies: BotStrategyRegistry = new BotStrategyRegistry(),
+    ipVisibility: IpVisibility = 'hidden',
+    trustProxy: boolean = false
+  ) {
     this.port = port;
+    this.botStrategies = botStrategies;
+    this.ipVisibility = ipVisibility;
+    this.trustProxy = trustProxy;
     this.app = express();
     this.server = http.createServer(this.app);
     this.wss = new WebSocketServer({ server: this.server });
@@ -74,23 +109,49 @@ export class SessionManager {
         sessions: this.getSessionList()
       });
     });
+
+    // API endpoint for downloading a finished match for replay. A record reveals every hand,
+    // so it takes the session password or the reconnect token of one of the session's seats.
+    this.app.get('/api/sessions/:sessionId/matches/:gameNumber', (req, res) => {
+      const clientIp = this.getClientIp(req);
+      const retryMs = this.getJoinRetryDelay(clientIp);
+      if (retryMs > 0) {
+        res.status(429).json({ error: `Too many failed attempts, try again in ${Math.ceil(retryMs / 1000)}s` });
+        return;
+      }
+
+      const session = this.sessions.get(req.params.sessionId);
+      if (!session) {
+        this.recordFailedJoin(clientIp);
+        res.status(404).json({ error: 'Match not found' });
+        return;
+      }
+
+      const password = req.get('X-Session-Password');
+      if (!session.hasSeatToken(req.get('X-Reconnect-Token')) && !session.checkPassword(password)) {
+        if (password) {
+          this.recordFailedJoin(clientIp);
+          res.status(403).json({ error: 'Wrong password' });
+        } else {
+          res.status(401).json({ error: 'This session requires a password' });
+        }
+        return;
+      }
+
+      const record = session.getMatchRecord(parseInt(req.params.gameNumber, 10));
+      if (!record) {
+        res.status(404).json({ error: 'Match not found' });
+        return;
+      }
+      res.json(record);
+    });
   }
 
   private setupWebSocket(): void {
     this.wss.on('connection', (ws: WebSocket, req: http.IncomingMessage) => {
       const clientId = uuidv4();
-      let clientIp = (req.headers['x-forwarded-for'] as string)?.split(',')[0]?.trim() 
-        || req.socket.remoteAddress 
-        || 'unknown';
-      
-      // Convert IPv6 mapped IPv4 addresses
-      if (clientIp.startsWith('::ffff:')) {
-        clientIp = clientIp.substring(7);
-      }
-      if (clientIp === '::1' || clientIp === '127.0.0.1') {
-        clientIp = 'localhost';
-      }
-      
+      const clientIp = this.getClientIp(req);
+
       console.log(`Client connected: ${clientId} from ${clientIp}`);
 
       // Create client entry (identity will be assigned on register)
@@ -127,6 +188,21 @@ export class SessionManager {
     const client = this.clients.get(clientId);
     if (!client) return;
 
+    // Every payload is checked against its schema before any handler sees it
+    const issues = validateClientMessage(message);
+    if (issues.length > 0) {
+      const type = typeof message?.type === 'string' ? message.type : 'message';
+      this.send(client.ws, {
+        type: 'error',
+        payload: {
+          message: `Invalid ${type}: ${issues.map(issue => `${issue.field} ${issue.message}`).join('; ')}`,
+          code: 'VALIDATION_ERROR',
+          fields: issues
+        }
+      });
+      return;
+    }
+
     console.log(`Received message from ${clientId}:`, message.type);
 
     // Session management messages
@@ -138,10 +214,10 @@ export class SessionManager {
         this.handleListSessions(clientId);
         return;
       case 'create_session':
-        this.handleCreateSession(clientId, message.payload as CreateSessionPayload);
+        this.handleCreateSession(clientId, message.payload);
         return;
       case 'join_session':
-        this.handleJoinSession(clientId, message.payload as JoinSessionPayload);
+        this.handleJoinSession(clientId, message.payload);
         return;
       case 'leave_session':
         this.handleLeaveSession(clientId);
@@ -167,7 +243,7 @@ export class SessionManager {
     }
   }
 
-  private handleRegister(clientId: string, payload: { identityId?: string; playerName: string }): void {
+  private handleRegister(clientId: string, payload: RegisterPayload): void {
     const client = this.clients.get(clientId);
     if (!client) return;
 
@@ -176,10 +252,10 @@ export class SessionManager {
     client.identityId = identityId;
     client.playerName = payload.playerName;
 
-    // Check if this identity was previously in a session
-    const previousSessionId = this.identityToSession.get(identityId);
-    if (previousSessionId && this.sessions.has(previousSessionId)) {
-      client.previousSessionId = previousSessionId;
+    // Check if the client holds the reconnect token of a seat that is waiting for them
+    const previousSession = this.findSessionByReconnectToken(payload.reconnectToken);
+    if (previousSession) {
+      client.previousSessionId = previousSession.id;
     }
 
     // Send registration confirmation
@@ -199,7 +275,7 @@ export class SessionManager {
     const client = this.clients.get(clientId);
     if (!client) return;
 
-    const sessions = this.getSessionList();
+    const sessions = this.getSessionList(client.previousSessionId);
     
     this.send(client.ws, {
       type: 'sessions_list',
@@ -226,28 +302,30 @@ export class SessionManager {
       ...payload.settings
     };
 
+    const inviteCode = this.generateInviteCode();
     const session = new GameSession(
       sessionId,
       payload.sessionName,
       settings,
+      { inviteCode, password: payload.password || null, unlisted: !!payload.unlisted },
       (ws, msg) => this.sendToClient(ws, msg),
       () => this.broadcastSessionUpdate(),
       this.publicIp,
-      this.port
+      this.port,
+      this.botStrategies,
+      this.ipVisibility
     );
 
     this.sessions.set(sessionId, session);
     client.currentSessionId = sessionId;
-    
-    // Track this identity's session for reconnection
-    this.identityToSession.set(client.identityId, sessionId);
 
     // Send session created confirmation
     this.send(client.ws, {
       type: 'session_created',
       payload: {
         sessionId,
-        sessionName: payload.sessionName
+        sessionName: payload.sessionName,
+        inviteCode
       }
     });
 
@@ -270,44 +348,89 @@ export class SessionManager {
       return;
     }
 
-    const session = this.sessions.get(payload.sessionId);
+    const retryMs = this.getJoinRetryDelay(client.ip);
+    if (retryMs > 0) {
+      this.sendError(client.ws, `Too many failed attempts, try again in ${Math.ceil(retryMs / 1000)}s`, 'RATE_LIMITED');
+      return;
+    }
+
+    const session = this.findSession(payload.sessionId);
     if (!session) {
+      this.recordFailedJoin(client.ip);
       this.sendError(client.ws, 'Session not found', 'SESSION_NOT_FOUND');
       return;
     }
 
+    // Players returning to their own seat are not asked again
+    const isReturning = session.canReconnect(payload.reconnectToken);
+    if (!isReturning && !session.checkPassword(payload.password)) {
+      if (payload.password) {
+        this.recordFailedJoin(client.ip);
+        this.sendError(client.ws, 'Wrong password', 'WRONG_PASSWORD');
+      } else {
+        this.sendError(client.ws, 'This session requires a password', 'PASSWORD_REQUIRED');
+      }
+      return;
+    }
+
+    if (payload.spectate) {
+      this.handleSpectateSession(clientId, payload, session);
+      return;
+    }
+
     // Check if session is full
     const sessionInfo = session.getSessionInfo();
-    if (sessionInfo.playerCount >= sessionInfo.maxPlayers && 
-        !session.hasDisconnectedPlayer(payload.playerName)) {
+    if (sessionInfo.playerCount >= sessionInfo.maxPlayers && !isReturning) {
       this.sendError(client.ws, 'Session is full', 'SESSION_FULL');
       return;
     }
 
-    client.currentSessionId = payload.sessionId;
+    client.currentSessionId = session.id;
     client.playerName = payload.playerName;
-    
-    // Track this identity's session for reconnection
-    this.identityToSession.set(client.identityId, payload.sessionId);
 
     // Send session joined confirmation
     this.send(client.ws, {
       type: 'session_joined',
       payload: {
-        sessionId: payload.sessionId,
-        sessionName: session.getSessionInfo().name
+        sessionId: session.id,
+        sessionName: session.getSessionInfo().name,
+        inviteCode: session.inviteCode
       }
     });
 
     // Join the game within the session
     session.handleMessage(clientId, client.ws, client.ip, client.identityId, {
       type: 'join_game',
-      payload: { playerName: payload.playerName }
+      payload: { playerName: payload.playerName, reconnectToken: payload.reconnectToken }
     });
 
     console.log(`${payload.playerName} joined session "${session.getSessionInfo().name}"`);
   }
 
+  /**
+   * Spectators skip the seat limit and are not remembered for reconnection
+   */
+  private handleSpectateSession(clientId: string, payload: JoinSessionPayload, session: GameSession): void {
+    const client = this.clients.get(clientId);
+    if (!client) return;
+
+    client.currentSessionId = session.id;
+    client.playerName = payload.playerName;
+
+    this.send(client.ws, {
+      type: 'session_joined',
+      payload: {
+        sessionId: session.id,
+        sessionName: session.getSessionInfo().name,
+        inviteCode: session.inviteCode
+      }
+    });
+
+    session.addSpectator(clientId, client.ws, payload.playerName);
+
+    console.log(`${payload.playerName} is watching session "${session.getSessionInfo().name}"`);
+  }
+
   private handleLeaveSession(clientId: string): void {
     const client = this.clients.get(clientId);
     if (!client || !client.currentSessionId) return;
@@ -333,7 +456,7 @@ export class SessionManager {
     this.broadcastSessionUpdate();
   }
 
-  private handleUpdateSessionSettings(clientId: string, payload: { mode?: string; maxPlayers?: number }): void {
+  private handleUpdateSessionSettings(clientId: string, payload: UpdateSessionSettingsPayload): void {
     const client = this.clients.get(clientId);
     if (!client || !client.currentSessionId) {
       this.sendError(client?.ws!, 'Not in a session', 'NOT_IN_SESSION');
@@ -356,19 +479,15 @@ export class SessionManager {
     session.updateSettings(payload);
 
     // Broadcast updated settings to all players in the session
-    const updatedSettings = session.getSettings();
     this.broadcastToSession(client.currentSessionId, {
       type: 'session_settings_updated',
-      payload: {
-        mode: updatedSettings.mode,
-        maxPlayers: updatedSettings.maxPlayers
-      }
+      payload: session.getSettings()
     });
 
     // Broadcast game state update so UI reflects new settings (e.g., slot count)
     session.broadcastGameState();
 
-    console.log(`Session settings updated by ${client.playerName}: mode=${payload.mode}, maxPlayers=${payload.maxPlayers}`);
+    console.log(`Session settings updated by ${client.playerName}: ${Object.keys(payload).join(', ')}`);
     this.broadcastSessionUpdate();
   }
 
@@ -404,12 +523,11 @@ export class SessionManager {
     for (const [cid, c] of this.clients.entries()) {
       if (c.currentSessionId === sessionId) {
         c.currentSessionId = null;
-        // Clear identity-to-session mapping
-        this.identityToSession.delete(c.identityId);
       }
     }
 
     // Delete the session
+    session.dispose();
     this.sessions.delete(sessionId);
 
     console.log(`Session "${sessionName}" deleted by ${client.playerName}`);
@@ -433,15 +551,84 @@ export class SessionManager {
     this.broadcastSessionUpdate();
   }
 
-  private getSessionList(): SessionInfo[] {
+  /**
+   * Listed sessions, plus an unlisted one the client is allowed to see (the session they can rejoin)
+   */
+  private getSessionList(includeSessionId: string | null = null): SessionInfo[] {
     const sessions: SessionInfo[] = [];
     for (const session of this.sessions.values()) {
+      if (session.unlisted && session.id !== includeSessionId) continue;
       sessions.push(session.getSessionInfo());
     }
     // Sort by creation time (newest first)
     return sessions.sort((a, b) => b.createdAt - a.createdAt);
   }
 
+  /**
+   * Look a session up by id, or by invite code in place of the id
+   */
+  private findSession(sessionIdOrCode: string): GameSession | undefined {
+    const session = this.sessions.get(sessionIdOrCode);
+    if (session) return session;
+    const code = (sessionIdOrCode || '').trim().toUpperCase();
+    return Array.from(this.sessions.values()).find(s => s.inviteCode === code);
+  }
+
+  private findSessionByReconnectToken(reconnectToken: string | undefined): GameSession | undefined {
+    if (!reconnectToken) return undefined;
+    return Array.from(this.sessions.values()).find(s => s.canReconnect(reconnectToken));
+  }
+
+  private generateInviteCode(): string {
+    let code: string;
+    do {
+      code = Array.from(randomBytes(INVITE_CODE_LENGTH))
+        .map(byte => INVITE_CODE_ALPHABET[byte % INVITE_CODE_ALPHABET.length])
+        .join('');
+    } while (this.findSession(code));
+    return code;
+  }
+
+  /**
+   * The address a request came from. Clients can send any X-Forwarded-For they like, so it is
+   * only read behind a trusted proxy, and then only the entry that proxy appended (the last one).
+   */
+  private getClientIp(req: http.IncomingMessage): string {
+    const forwardedFor = this.trustProxy ? req.headers['x-forwarded-for'] : undefined;
+    const forwarded = (Array.isArray(forwardedFor) ? forwardedFor.join(',') : forwardedFor)?.split(',').pop()?.trim();
+    let clientIp = forwarded
+      || req.socket.remoteAddress
+      || 'unknown';
+
+    // Convert IPv6 mapped IPv4 addresses
+    if (clientIp.startsWith('::ffff:')) {
+      clientIp = clientIp.substring(7);
+    }
+    if (clientIp === '::1' || clientIp === '127.0.0.1') {
+      clientIp = 'localhost';
+    }
+    return clientIp;
+  }
+
+  /**
+   * How long an IP must wait before trying to join again (0 if it may try now)
+   */
+  private getJoinRetryDelay(ip: string): number {
+    const failed = this.failedJoins.get(ip);
+    if (!failed || failed.count < MAX_FAILED_JOINS) return 0;
+    return Math.max(0, failed.windowStart + FAILED_JOIN_WINDOW_MS - Date.now());
+  }
+
+  private recordFailedJoin(ip: string): void {
+    const now = Date.now();
+    const failed = this.failedJoins.get(ip);
+    if (!failed || now - failed.windowStart >= FAILED_JOIN_WINDOW_MS) {
+      this.failedJoins.set(ip, { count: 1, windowStart: now });
+    } else {
+      failed.count++;
+    }
+  }
+
   private getTotalPlayerCount(): number {
     let count = 0;
     for (const session of this.sessions.values()) {
@@ -452,13 +639,12 @@ export class SessionManager {
 
   private broadcastSessionUpdate(): void {
     // Send updated session list to all clients not in a session
-    const sessions = this.getSessionList();
     for (const [clientId, client] of this.clients.entries()) {
       if (!client.currentSessionId && client.identityId) {
         this.send(client.ws, {
           type: 'session_updated',
           payload: {
-            sessions,
+            sessions: this.getSessionList(client.previousSessionId),
             previousSessionId: client.previousSessionId
           }
         });
@@ -495,9 +681,19 @@ export class SessionManager {
     // Clean up stale sessions every 5 minutes
     this.cleanupInterval = setInterval(() => {
       this.cleanupStaleSessions();
+      this.pruneFailedJoins();
     }, 5 * 60 * 1000);
   }
 
+  private pruneFailedJoins(): void {
+    const now = Date.now();
+    for (const [ip, failed] of this.failedJoins.entries()) {
+      if (now - failed.windowStart >= FAILED_JOIN_WINDOW_MS) {
+        this.failedJoins.delete(ip);
+      }
+    }
+  }
+
   private cleanupStaleSessions(): void {
     const staleSessionIds: string[] = [];
     
@@ -508,6 +704,7 @@ export class SessionManager {
     }
 
     for (const sessionId of staleSessionIds) {
+      this.sessions.get(sessionId)?.dispose();
       this.sessions.delete(sessionId);
       console.log(`Cleaned up stale session: ${sessionId}`);
     }
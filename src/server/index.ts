@@ -2,16 +2,38 @@
 // Perudo+ Server Entry Point
 // ============================================
 
+import fs from 'fs';
 import { SessionManager } from './SessionManager';
+import { BotStrategyRegistry } from './BotStrategyRegistry';
+import { IpVisibility } from '../shared/types';
+
+const DEFAULT_BOT_STRATEGY_DIR = 'bots';
+const IP_VISIBILITIES: IpVisibility[] = ['hidden', 'host', 'everyone'];
 
 // Parse command line arguments
 const args = process.argv.slice(2);
 let port = 3000;
+let botStrategyDir: string | null = null;
+let ipVisibility: IpVisibility = 'hidden';
+let trustProxy = false;
 
 for (let i = 0; i < args.length; i++) {
   if (args[i] === '--port' || args[i] === '-p') {
     port = parseInt(args[i + 1], 10) || 3000;
     i++;
+  } else if (args[i] === '--bots' || args[i] === '-b') {
+    botStrategyDir = args[i + 1] || null;
+    i++;
+  } else if (args[i] === '--show-ips') {
+    const value = args[i + 1] as IpVisibility;
+    if (!IP_VISIBILITIES.includes(value)) {
+      console.error(`--show-ips must be one of: ${IP_VISIBILITIES.join(', ')}`);
+      process.exit(1);
+    }
+    ipVisibility = value;
+    i++;
+  } else if (args[i] === '--trust-proxy') {
+    trustProxy = true;
   } else if (args[i] === '--help' || args[i] === '-h') {
     console.log(`
 Perudo+ Session Server
@@ -20,18 +42,31 @@ Usage: npm run start:server -- [options]
 
 Options:
   -p, --port <number>   Port to listen on (default: 3000)
+  -b, --bots <dir>      Load bot strategies from a directory (default: ./bots if present)
+  --show-ips <who>      Who sees player IPs: hidden, host or everyone (default: hidden)
+  --trust-proxy         Take client addresses from X-Forwarded-For (only behind your own reverse proxy)
   -h, --help            Show this help message
 
 Examples:
   npm run start:server -- --port 8080
   npm run start:server -- --port 3000
+  npm run start:server -- --bots ./my-bots
+  npm run start:server -- --show-ips host
 `);
     process.exit(0);
   }
 }
 
+// Built-in bots are always available; extra strategies come from the bots directory
+const botStrategies = new BotStrategyRegistry();
+if (botStrategyDir) {
+  botStrategies.loadDirectory(botStrategyDir);
+} else if (fs.existsSync(DEFAULT_BOT_STRATEGY_DIR)) {
+  botStrategies.loadDirectory(DEFAULT_BOT_STRATEGY_DIR);
+}
+
 // Create and start the session manager
-const server = new SessionManager(port);
+const server = new SessionManager(port, botStrategies, ipVisibility, trustProxy);
 
 server.start().then(() => {
   console.log('Players can now browse and create game sessions.');
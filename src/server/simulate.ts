@@ -0,0 +1,541 @@
+// ============================================
+// Perudo+ Headless Simulation
+// Plays whole games in-process with bot strategies for balance testing
+// ============================================
+
+import fs from 'fs';
+import { GameState, GameMode, GameAction, CardType, Card, CardResult, PlayCardPayload } from '../shared/types';
+import {
+  createGameState,
+  createDefaultSettings,
+  createPlayer,
+  addPlayer,
+  selectSlot,
+  startGame,
+  rollDiceForRound,
+  startNewRound,
+  getCurrentPlayer,
+  getPlayableCardsForPlayer,
+  findTargetDie
+} from '../shared/gameState';
+import { applyGameAction } from '../shared/replay';
+import { CARD_FREQUENCY, CHAOS_CARD_FREQUENCY } from '../shared/cards';
+import { createSeededRandom, RandomFn } from '../shared/random';
+import {
+  BotKnowledge,
+  BotDecision,
+  BotStrategy,
+  createBotObservation,
+  updateBotKnowledge,
+  isBotDecision,
+  getFallbackBotDecision
+} from '../shared/bots';
+import { BotStrategyRegistry } from './BotStrategyRegistry';
+
+const GAME_MODES: GameMode[] = ['classic', 'tactical', 'chaos'];
+const MAX_ACTIONS_PER_GAME = 5000; // A game still running after this many moves counts as unfinished
+
+// Cards whose effect changes dice, so what bots learned about those hands is stale
+const DICE_CHANGING_CARDS: Partial<Record<CardType, 'self' | 'target' | 'both'>> = {
+  reroll_one: 'self',
+  polish: 'self',
+  crack: 'target',
+  blind_swap: 'both'
+};
+
+interface SimulationOptions {
+  games: number;
+  mode: GameMode;
+  strategyIds: string[]; // One per seat
+  strategyDir: string | null;
+  seed: number;
+  enableCalza: boolean;
+  enableLastStand: boolean;
+  rotateSeats: boolean; // Move every strategy through every seat so seat order doesn't skew strategy results
+  json: boolean;
+}
+
+interface CardPlay {
+  cardType: CardType;
+  playerId: string;
+  diceAtPlay: number;
+}
+
+interface GameOutcome {
+  winnerSeat: number | null; // null when the game never finished
+  winnerStrategyId: string | null;
+  rounds: number;
+  cardPlays: { cardType: CardType; diceLost: number }[];
+  diceLostPerPlayerRound: number[];
+  cardsHeld: Set<CardType>[]; // Indexed by seat
+}
+
+interface CardStats {
+  frequency: number;
+  plays: number;
+  averageDiceLost: number | null;
+  winnerHeldRate: number; // Share of finished games where the winner held this card at some point
+  holderWinRate: number | null; // Share of players who ever held it that went on to win
+}
+
+interface SimulationStats {
+  games: number;
+  finishedGames: number;
+  mode: GameMode;
+  seed: number;
+  seats: { seat: number; strategyId: string | null; wins: number; winRate: number }[];
+  strategies: { strategyId: string; seatsPlayed: number; wins: number; winRate: number }[];
+  rounds: { average: number; median: number; min: number; max: number };
+  averageDiceLostPerPlayerRound: number;
+  cards: Record<string, CardStats>;
+  neverPlayed: CardType[]; // Cards no seat played, so their rows only describe holding them
+}
+
+// ============================================
+// Playing a Game
+// ============================================
+
+/**
+ * Ask a strategy for a move, treating a crash or a malformed answer as no move
+ */
+function decide(strategy: BotStrategy, state: GameState, playerId: string, knowledge: BotKnowledge, random: RandomFn): BotDecision | null {
+  try {
+    const decision = strategy.decide(createBotObservation(state, playerId, knowledge), random);
+    return isBotDecision(decision) ? decision : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Apply a bot decision with the same checks GameSession makes, or return null if it is rejected
+ */
+function applyDecision(state: GameState, playerId: string, decision: BotDecision): GameState | null {
+  let action: GameAction;
+  switch (decision.type) {
+    case 'make_bid':
+      action = { type: 'make_bid', playerId, quantity: decision.quantity, faceValue: decision.faceValue };
+      break;
+    case 'call_dudo':
+      action = { type: 'call_dudo', playerId, targetBidIndex: decision.targetBidIndex ?? null };
+      break;
+    case 'call_jonti':
+      action = { type: 'call_jonti', playerId };
+      break;
+    case 'call_calza':
+      if (!state.settings.enableCalza) return null;
+      action = { type: 'call_calza', playerId };
+      break;
+    case 'play_card':
+      if (!getPlayableCardsForPlayer(state, playerId).some(c => c.id === decision.card.cardId)) return null;
+      action = { type: 'play_card', playerId, card: decision.card };
+      break;
+  }
+
+  try {
+    return applyGameAction(state, action);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * What a Peek or Gauge would have told the player, in the shape GameSession sends it
+ */
+function getCardResult(stateBeforeCard: GameState, card: Card, payload: PlayCardPayload): CardResult | undefined {
+  if (card.type === 'peek') {
+    const die = findTargetDie(stateBeforeCard, payload.targetPlayerId, payload.targetDieId, payload.additionalData?.dieIndex);
+    return die ? { cardType: 'peek', die } : undefined;
+  }
+  if (card.type === 'gauge') {
+    const dieIds = payload.additionalData?.dieIds ?? [];
+    const dieInfos = dieIds.flatMap(dieKey => {
+      const separator = dieKey.lastIndexOf('-');
+      const target = stateBeforeCard.players.find(p => p.id === dieKey.slice(0, separator));
+      const die = target?.dice[parseInt(dieKey.slice(separator + 1), 10)];
+      return target && die ? [{ playerId: target.id, dieType: die.type, playerName: target.name }] : [];
+    });
+    return { cardType: 'gauge', dieInfos };
+  }
+  return undefined;
+}
+
+function playGame(strategies: BotStrategy[], options: SimulationOptions, gameSeed: number): GameOutcome {
+  const random = createSeededRandom(`${gameSeed}:bots`).random;
+  let state = createGameState({
+    ...createDefaultSettings(options.mode),
+    maxPlayers: Math.max(strategies.length, 2),
+    enableCalza: options.enableCalza,
+    enableLastStand: options.enableLastStand
+  });
+
+  const playerIds: string[] = [];
+  strategies.forEach((strategy, seat) => {
+    const player = { ...createPlayer(`Seat ${seat + 1}`, seat === 0, 'bot'), botStrategyId: strategy.id };
+    state = selectSlot(addPlayer(state, player), player.id, seat);
+    playerIds.push(player.id);
+  });
+  state = rollDiceForRound(startGame(state, String(gameSeed)));
+
+  const knowledge: Record<string, BotKnowledge> = {};
+  const cardsHeld = strategies.map(() => new Set<CardType>());
+  const cardPlays: GameOutcome['cardPlays'] = [];
+  const diceLostPerPlayerRound: number[] = [];
+  let pendingPlays: CardPlay[] = [];
+  let roundStartDice = new Map<string, number>();
+  let rounds = 1;
+
+  const startRound = () => {
+    playerIds.forEach(id => { knowledge[id] = {}; });
+    roundStartDice = new Map(state.players.filter(p => !p.isEliminated).map(p => [p.id, p.dice.length]));
+  };
+  const trackHands = () => {
+    state.players.forEach(p => p.cards.forEach(c => cardsHeld[playerIds.indexOf(p.id)].add(c.type)));
+  };
+  const finishRound = () => {
+    const diceNow = (id: string) => state.players.find(p => p.id === id)?.dice.length ?? 0;
+    for (const play of pendingPlays) {
+      cardPlays.push({ cardType: play.cardType, diceLost: play.diceAtPlay - diceNow(play.playerId) });
+    }
+    for (const [id, dice] of roundStartDice) {
+      diceLostPerPlayerRound.push(dice - diceNow(id));
+    }
+    pendingPlays = [];
+  };
+
+  startRound();
+  trackHands();
+
+  for (let actions = 0; state.phase !== 'game_over' && actions < MAX_ACTIONS_PER_GAME; actions++) {
+    if (state.phase === 'round_end') {
+      finishRound();
+      state = rollDiceForRound(startNewRound(state));
+      rounds++;
+      startRound();
+      trackHands();
+      continue;
+    }
+    if (state.phase !== 'bidding') break;
+
+    // Everyone else gets a chance at an off-turn move (Calza) before the current player acts
+    const current = getCurrentPlayer(state);
+    if (!current) break;
+    const currentSeat = playerIds.indexOf(current.id);
+    const order = playerIds.map((_, i) => playerIds[(currentSeat + 1 + i) % playerIds.length]);
+
+    let acted = false;
+    for (const playerId of order) {
+      const player = state.players.find(p => p.id === playerId);
+      if (!player || player.isEliminated) continue;
+
+      const strategy = strategies[playerIds.indexOf(playerId)];
+      const decision = decide(strategy, state, playerId, knowledge[playerId], random);
+      let nextState = decision ? applyDecision(state, playerId, decision) : null;
+      let applied = decision;
+
+      if (!nextState && playerId === current.id) {
+        applied = getFallbackBotDecision(createBotObservation(state, playerId, knowledge[playerId]));
+        nextState = applyDecision(state, playerId, applied);
+      }
+      if (!nextState || !applied) continue;
+
+      if (applied.type === 'play_card') {
+        const card = player.cards.find(c => c.id === applied!.card.cardId)!;
+        knowledge[playerId] = updateBotKnowledge(knowledge[playerId], applied.card, getCardResult(state, card, applied.card));
+        pendingPlays.push({ cardType: card.type, playerId, diceAtPlay: player.dice.length });
+
+        const changed = DICE_CHANGING_CARDS[card.type];
+        const changedIds = [
+          ...(changed === 'self' || changed === 'both' ? [playerId] : []),
+          ...((changed === 'target' || changed === 'both') && applied.card.targetPlayerId ? [applied.card.targetPlayerId] : [])
+        ];
+        for (const id of playerIds) {
+          changedIds.forEach(changedId => { delete knowledge[id][changedId]; });
+        }
+      }
+
+      state = nextState;
+      acted = true;
+      break;
+    }
+    if (!acted) break;
+    trackHands();
+  }
+
+  const finished = state.phase === 'game_over' && state.winnerId !== null;
+  if (finished) {
+    finishRound();
+  }
+  const winnerSeat = finished ? playerIds.indexOf(state.winnerId!) : null;
+  return {
+    winnerSeat,
+    winnerStrategyId: winnerSeat !== null ? strategies[winnerSeat].id : null,
+    rounds,
+    cardPlays,
+    diceLostPerPlayerRound,
+    cardsHeld
+  };
+}
+
+// ============================================
+// Statistics
+// ============================================
+
+function runSimulation(options: SimulationOptions, registry: BotStrategyRegistry): SimulationStats {
+  const seatStrategies = options.strategyIds.map(id => registry.get(id)!);
+  const seatWins = seatStrategies.map(() => 0);
+  const strategyWins = new Map<string, { seatsPlayed: number; wins: number }>();
+  const roundCounts: number[] = [];
+  const cardTypes = (Object.keys(CARD_FREQUENCY) as CardType[]);
+  const cardTotals = new Map<CardType, { plays: number; diceLost: number; winnerHeld: number; held: number; heldAndWon: number }>(
+    cardTypes.map(type => [type, { plays: 0, diceLost: 0, winnerHeld: 0, held: 0, heldAndWon: 0 }])
+  );
+  let diceLostTotal = 0;
+  let playerRounds = 0;
+  let finishedGames = 0;
+
+  for (let game = 0; game < options.games; game++) {
+    const shift = options.rotateSeats ? game % seatStrategies.length : 0;
+    const strategies = seatStrategies.map((_, seat) => seatStrategies[(seat + shift) % seatStrategies.length]);
+    const outcome = playGame(strategies, options, (options.seed + game) >>> 0);
+
+    for (const strategy of strategies) {
+      const entry = strategyWins.get(strategy.id) ?? { seatsPlayed: 0, wins: 0 };
+      entry.seatsPlayed++;
+      strategyWins.set(strategy.id, entry);
+    }
+    for (const play of outcome.cardPlays) {
+      const totals = cardTotals.get(play.cardType)!;
+      totals.plays++;
+      totals.diceLost += play.diceLost;
+    }
+    diceLostTotal += outcome.diceLostPerPlayerRound.reduce((sum, lost) => sum + lost, 0);
+    playerRounds += outcome.diceLostPerPlayerRound.length;
+
+    if (outcome.winnerSeat !== null) {
+      finishedGames++;
+      seatWins[outcome.winnerSeat]++;
+      strategyWins.get(outcome.winnerStrategyId!)!.wins++;
+      roundCounts.push(outcome.rounds);
+      outcome.cardsHeld.forEach((held, seat) => {
+        for (const type of held) {
+          const totals = cardTotals.get(type)!;
+          totals.held++;
+          if (seat === outcome.winnerSeat) {
+            totals.winnerHeld++;
+            totals.heldAndWon++;
+          }
+        }
+      });
+    }
+
+    if (process.stderr.isTTY && !options.json && (game + 1) % 100 === 0) {
+      process.stderr.write(`\rSimulated ${game + 1}/${options.games} games`);
+    }
+  }
+  if (process.stderr.isTTY && !options.json) {
+    process.stderr.write('\r\x1b[K');
+  }
+
+  const rate = (count: number, total: number) => (total > 0 ? count / total : 0);
+  const sortedRounds = [...roundCounts].sort((a, b) => a - b);
+  const frequency = options.mode === 'chaos' ? CHAOS_CARD_FREQUENCY : CARD_FREQUENCY;
+
+  const cards: Record<string, CardStats> = {};
+  if (options.mode !== 'classic') {
+    for (const type of cardTypes) {
+      const totals = cardTotals.get(type)!;
+      cards[type] = {
+        frequency: frequency[type],
+        plays: totals.plays,
+        averageDiceLost: totals.plays > 0 ? totals.diceLost / totals.plays : null,
+        winnerHeldRate: rate(totals.winnerHeld, finishedGames),
+        holderWinRate: totals.held > 0 ? totals.heldAndWon / totals.held : null
+      };
+    }
+  }
+
+  return {
+    games: options.games,
+    finishedGames,
+    mode: options.mode,
+    seed: options.seed,
+    seats: seatWins.map((wins, seat) => ({
+      seat: seat + 1,
+      strategyId: options.rotateSeats ? null : seatStrategies[seat].id,
+      wins,
+      winRate: rate(wins, finishedGames)
+    })),
+    strategies: Array.from(strategyWins.entries()).map(([strategyId, entry]) => ({
+      strategyId,
+      seatsPlayed: entry.seatsPlayed,
+      wins: entry.wins,
+      winRate: rate(entry.wins, finishedGames)
+    })),
+    rounds: {
+      average: rate(roundCounts.reduce((sum, r) => sum + r, 0), roundCounts.length),
+      median: sortedRounds.length > 0 ? sortedRounds[Math.floor(sortedRounds.length / 2)] : 0,
+      min: sortedRounds[0] ?? 0,
+      max: sortedRounds[sortedRounds.length - 1] ?? 0
+    },
+    averageDiceLostPerPlayerRound: rate(diceLostTotal, playerRounds),
+    cards,
+    neverPlayed: (Object.keys(cards) as CardType[]).filter(type => cards[type].plays === 0)
+  };
+}
+
+function printStats(stats: SimulationStats, options: SimulationOptions): void {
+  const percent = (value: number) => `${(value * 100).toFixed(1)}%`.padStart(7);
+  const decimal = (value: number | null) => (value === null ? '-' : value.toFixed(2)).padStart(8);
+
+  console.log(`Perudo+ simulation: ${stats.games} games, ${stats.mode} mode, seed ${stats.seed}`);
+  console.log(`Seats: ${options.strategyIds.join(', ')}${options.rotateSeats ? ' (rotated every game)' : ''}`);
+  if (stats.finishedGames < stats.games) {
+    console.log(`Unfinished games (stalled or over ${MAX_ACTIONS_PER_GAME} moves): ${stats.games - stats.finishedGames}`);
+  }
+
+  console.log('\nWin rate by seat');
+  for (const seat of stats.seats) {
+    console.log(`  Seat ${seat.seat}  ${(seat.strategyId ?? '').padEnd(12)}${percent(seat.winRate)}  (${seat.wins} wins)`);
+  }
+
+  if (options.rotateSeats || stats.strategies.length < stats.seats.length) {
+    console.log('\nWin rate by strategy');
+    for (const strategy of stats.strategies) {
+      console.log(`  ${strategy.strategyId.padEnd(20)}${percent(strategy.winRate)}  (${strategy.wins} wins over ${strategy.seatsPlayed} seats)`);
+    }
+  }
+
+  console.log('\nGame length (rounds)');
+  console.log(`  Average ${stats.rounds.average.toFixed(1)}, median ${stats.rounds.median}, min ${stats.rounds.min}, max ${stats.rounds.max}`);
+  console.log(`  Average dice lost per player per round: ${stats.averageDiceLostPerPlayerRound.toFixed(2)}`);
+
+  if (Object.keys(stats.cards).length > 0) {
+    console.log('\nCards (dice lost = by the player who played it, in that round)');
+    console.log(`  ${'Card'.padEnd(14)}${'Freq'.padStart(5)}${'Plays'.padStart(8)}${'Dice lost'.padStart(11)}${'Winner held'.padStart(13)}${'Holder wins'.padStart(13)}`);
+    for (const [type, card] of Object.entries(stats.cards)) {
+      const played = card.plays > 0 ? `${String(card.plays).padStart(8)}${decimal(card.averageDiceLost)}` : '  never played';
+      console.log(
+        `  ${type.padEnd(14)}${String(card.frequency).padStart(5)}${played.padEnd(16)}   ${percent(card.winnerHeldRate)}      ` +
+        `${card.holderWinRate === null ? '      -' : percent(card.holderWinRate)}`
+      );
+    }
+    if (stats.neverPlayed.length > 0) {
+      console.log(`\n  Never played: ${stats.neverPlayed.join(', ')}`);
+      console.log('  No seat played these cards, so their rows only show what holding them was worth.');
+    }
+  }
+}
+
+// ============================================
+// Command Line
+// ============================================
+
+const HELP = `
+Perudo+ Headless Simulation
+
+Usage: npm run simulate -- [options]
+
+Options:
+  -g, --games <number>       Games to play (default: 1000)
+  -m, --mode <mode>          classic, tactical or chaos (default: tactical)
+      --bots <ids>           Comma-separated strategy per seat (default: easy,medium,hard)
+      --strategies <dir>     Load extra bot strategies from a directory (default: ./bots if present)
+      --seed <number>        Seed for the first game; game N uses seed + N (default: random)
+      --calza                Enable Calza
+      --last-stand           Enable Last Stand
+      --rotate               Rotate strategies through the seats every game
+      --json                 Print the statistics as JSON
+  -h, --help                 Show this help message
+
+Examples:
+  npm run simulate -- --games 10000 --mode chaos --bots hard,hard,hard,hard
+  npm run simulate -- --bots easy,medium,hard --rotate --calza --seed 42
+`;
+
+function parseOptions(args: string[]): SimulationOptions {
+  const options: SimulationOptions = {
+    games: 1000,
+    mode: 'tactical',
+    strategyIds: ['easy', 'medium', 'hard'],
+    strategyDir: null,
+    seed: Math.floor(Math.random() * 0x100000000) >>> 0,
+    enableCalza: false,
+    enableLastStand: false,
+    rotateSeats: false,
+    json: false
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--games' || args[i] === '-g') {
+      options.games = parseInt(args[i + 1], 10) || options.games;
+      i++;
+    } else if (args[i] === '--mode' || args[i] === '-m') {
+      const mode = args[i + 1] as GameMode;
+      if (!GAME_MODES.includes(mode)) {
+        throw new Error(`Unknown mode "${args[i + 1]}" (expected ${GAME_MODES.join(', ')})`);
+      }
+      options.mode = mode;
+      i++;
+    } else if (args[i] === '--bots') {
+      options.strategyIds = (args[i + 1] || '').split(',').map(id => id.trim()).filter(id => id);
+      i++;
+    } else if (args[i] === '--strategies') {
+      options.strategyDir = args[i + 1] || null;
+      i++;
+    } else if (args[i] === '--seed') {
+      options.seed = (parseInt(args[i + 1], 10) || 0) >>> 0;
+      i++;
+    } else if (args[i] === '--calza') {
+      options.enableCalza = true;
+    } else if (args[i] === '--last-stand') {
+      options.enableLastStand = true;
+    } else if (args[i] === '--rotate') {
+      options.rotateSeats = true;
+    } else if (args[i] === '--json') {
+      options.json = true;
+    } else if (args[i] === '--help' || args[i] === '-h') {
+      console.log(HELP);
+      process.exit(0);
+    } else {
+      throw new Error(`Unknown option "${args[i]}"`);
+    }
+  }
+
+  if (options.strategyIds.length < 2 || options.strategyIds.length > 6) {
+    throw new Error('--bots needs between 2 and 6 strategies');
+  }
+  return options;
+}
+
+function main(): void {
+  let options: SimulationOptions;
+  try {
+    options = parseOptions(process.argv.slice(2));
+  } catch (error: any) {
+    console.error(error.message);
+    process.exit(1);
+  }
+
+  const registry = new BotStrategyRegistry();
+  if (options.strategyDir) {
+    registry.loadDirectory(options.strategyDir);
+  } else if (fs.existsSync('bots')) {
+    registry.loadDirectory('bots');
+  }
+
+  const unknown = options.strategyIds.filter(id => !registry.get(id));
+  if (unknown.length > 0) {
+    console.error(`Unknown bot strategies: ${unknown.join(', ')} (available: ${registry.list().map(s => s.id).join(', ')})`);
+    process.exit(1);
+  }
+
+  const stats = runSimulation(options, registry);
+  if (options.json) {
+    console.log(JSON.stringify(stats, null, 2));
+  } else {
+    printStats(stats, options);
+  }
+}
+
+main();
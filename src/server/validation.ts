@@ -0,0 +1,218 @@
+// ============================================
+// Perudo+ Client Message Validation
+// One payload schema per client message type, checked before dispatch
+// ============================================
+
+import { ClientMessageType, ValidationIssue } from '../shared/types';
+import {
+  MIN_PLAYERS,
+  MAX_PLAYERS,
+  MAX_TURN_TIME_LIMIT_SECONDS,
+  MAX_TIME_BANK_SECONDS,
+  MAX_DISCONNECT_WAIT_SECONDS
+} from '../shared/gameState';
+
+/** Checks a value and records what is wrong with it under the given field path */
+type Validator = (value: unknown, field: string, issues: ValidationIssue[]) => void;
+
+const MAX_NAME_LENGTH = 20;
+const MAX_SESSION_NAME_LENGTH = 30;
+const MAX_PASSWORD_LENGTH = 50;
+const MAX_CHAT_LENGTH = 200;
+const MAX_ID_LENGTH = 128;
+
+// ============================================
+// Schema Building Blocks
+// ============================================
+
+function str(minLength: number, maxLength: number): Validator {
+  return (value, field, issues) => {
+    if (typeof value !== 'string') {
+      issues.push({ field, message: 'must be a string' });
+    } else if (value.trim().length < minLength || value.length > maxLength) {
+      issues.push({ field, message: `must be ${minLength}-${maxLength} characters` });
+    }
+  };
+}
+
+function int(min: number, max: number): Validator {
+  return (value, field, issues) => {
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+      issues.push({ field, message: `must be an integer from ${min} to ${max}` });
+    }
+  };
+}
+
+const bool: Validator = (value, field, issues) => {
+  if (typeof value !== 'boolean') {
+    issues.push({ field, message: 'must be true or false' });
+  }
+};
+
+function oneOf(values: readonly string[]): Validator {
+  return (value, field, issues) => {
+    if (typeof value !== 'string' || !values.includes(value)) {
+      issues.push({ field, message: `must be one of: ${values.join(', ')}` });
+    }
+  };
+}
+
+function optional(validator: Validator): Validator {
+  return (value, field, issues) => {
+    if (value !== undefined) validator(value, field, issues);
+  };
+}
+
+function nullable(validator: Validator): Validator {
+  return (value, field, issues) => {
+    if (value !== null) validator(value, field, issues);
+  };
+}
+
+function arrayOf(item: Validator, minLength: number, maxLength: number): Validator {
+  return (value, field, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({ field, message: 'must be an array' });
+    } else if (value.length < minLength || value.length > maxLength) {
+      const count = minLength === maxLength ? `${minLength}` : `${minLength}-${maxLength}`;
+      issues.push({ field, message: `must have ${count} items` });
+    } else {
+      value.forEach((entry, index) => item(entry, `${field}[${index}]`, issues));
+    }
+  };
+}
+
+/** An object with exactly these fields; anything else is reported as unexpected */
+function obj(shape: Record<string, Validator>): Validator {
+  return (value, field, issues) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      issues.push({ field, message: 'must be an object' });
+      return;
+    }
+    const record = value as Record<string, unknown>;
+    for (const [key, validator] of Object.entries(shape)) {
+      validator(record[key], `${field}.${key}`, issues);
+    }
+    for (const key of Object.keys(record)) {
+      if (!(key in shape)) {
+        issues.push({ field: `${field}.${key}`, message: 'is not an expected field' });
+      }
+    }
+  };
+}
+
+const empty = obj({});
+const id = str(1, MAX_ID_LENGTH);
+const playerName = str(1, MAX_NAME_LENGTH);
+
+const settings = obj({
+  mode: optional(oneOf(['classic', 'tactical', 'chaos'])),
+  maxPlayers: optional(int(MIN_PLAYERS, MAX_PLAYERS)),
+  enableCalza: optional(bool),
+  enableLastStand: optional(bool),
+  allowOddsOverlay: optional(bool),
+  turnTimeLimit: optional(int(0, MAX_TURN_TIME_LIMIT_SECONDS)),
+  turnTimeoutAction: optional(oneOf(['min_raise', 'dudo', 'lose_die'])),
+  timeBank: optional(int(0, MAX_TIME_BANK_SECONDS)),
+  timeBankIncrement: optional(int(0, MAX_TURN_TIME_LIMIT_SECONDS)),
+  disconnectGracePeriod: optional(int(0, MAX_DISCONNECT_WAIT_SECONDS)),
+  disconnectAction: optional(oneOf(['skip', 'bot'])),
+  disconnectForfeitTime: optional(int(0, MAX_DISCONNECT_WAIT_SECONDS))
+});
+
+// ============================================
+// Message Schemas
+// ============================================
+
+const PAYLOAD_SCHEMAS: Record<ClientMessageType, Validator> = {
+  register: obj({
+    identityId: optional(id),
+    playerName,
+    reconnectToken: optional(id)
+  }),
+  list_sessions: empty,
+  create_session: obj({
+    sessionName: str(1, MAX_SESSION_NAME_LENGTH),
+    hostName: playerName,
+    settings: optional(settings),
+    password: optional(str(1, MAX_PASSWORD_LENGTH)),
+    unlisted: optional(bool)
+  }),
+  join_session: obj({
+    sessionId: id,
+    playerName,
+    spectate: optional(bool),
+    password: optional(str(1, MAX_PASSWORD_LENGTH)),
+    reconnectToken: optional(id)
+  }),
+  leave_session: empty,
+  update_session_settings: settings,
+  delete_session: empty,
+  join_game: obj({
+    playerName,
+    reconnectToken: optional(id)
+  }),
+  start_game: empty,
+  make_bid: obj({
+    quantity: int(1, MAX_PLAYERS * 10), // Generous upper bound on dice in play
+    faceValue: int(1, 6)
+  }),
+  call_dudo: obj({
+    targetBidIndex: optional(int(0, Number.MAX_SAFE_INTEGER))
+  }),
+  call_calza: empty,
+  call_jonti: empty,
+  play_card: obj({
+    cardId: id,
+    targetPlayerId: optional(id),
+    targetDieId: optional(id),
+    additionalData: optional(obj({
+      dieIndex: optional(int(0, Number.MAX_SAFE_INTEGER)),
+      dieIds: optional(arrayOf(id, 2, 2)), // Gauge measures exactly two dice
+      faceValue: optional(int(1, 6))
+    }))
+  }),
+  ready_for_round: empty,
+  chat: obj({
+    message: str(1, MAX_CHAT_LENGTH)
+  }),
+  new_game: empty,
+  pause_game: empty,
+  resume_game: empty,
+  kick_player: obj({
+    playerId: id
+  }),
+  select_slot: obj({
+    slot: nullable(int(0, MAX_PLAYERS - 1))
+  }),
+  add_bot: obj({
+    slot: int(0, MAX_PLAYERS - 1),
+    strategyId: id
+  }),
+  transfer_host: obj({
+    playerId: id
+  }),
+  get_game_events: obj({
+    sinceSeq: optional(int(-1, Number.MAX_SAFE_INTEGER))
+  })
+};
+
+/**
+ * Check a parsed client message against the schema for its type.
+ * Returns every problem found; an empty list means the message is well formed.
+ */
+export function validateClientMessage(message: unknown): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  if (typeof message !== 'object' || message === null || Array.isArray(message)) {
+    return [{ field: 'message', message: 'must be an object' }];
+  }
+
+  const { type, payload } = message as { type?: unknown; payload?: unknown };
+  if (typeof type !== 'string' || !Object.prototype.hasOwnProperty.call(PAYLOAD_SCHEMAS, type)) {
+    return [{ field: 'type', message: 'is not a known message type' }];
+  }
+
+  // Messages without fields may leave the payload out
+  PAYLOAD_SCHEMAS[type as ClientMessageType](payload ?? {}, 'payload', issues);
+  return issues;
+}
@@ -0,0 +1,588 @@
+// ============================================
+// Perudo+ Bot Players
+// ============================================
+
+import {
+  GameState,
+  PublicGameState,
+  PublicPlayerInfo,
+  Die,
+  Card,
+  CardType,
+  PlayCardPayload,
+  CardResult,
+  BotDifficulty
+} from './types';
+import { RandomFn, randomInt } from './random';
+import { DICE_ORDER } from './dice';
+import {
+  MAX_DICE_PER_PLAYER,
+  toPublicGameState,
+  getPlayableCardsForPlayer,
+  getMinimumBidQuantity
+} from './gameState';
+import {
+  DieKnowledge,
+  BidProbabilityTable,
+  calculateBidProbabilities,
+  getBidSuccessProbability,
+  getExactBidProbability
+} from './probability';
+
+export const BOT_NAMES = ['Pedro', 'Lucía', 'Mateo', 'Sofía', 'Diego', 'Valentina', 'Tomás', 'Camila'];
+
+/**
+ * What a bot has learned about opponents' dice this round: playerId -> die index -> knowledge
+ */
+export type BotKnowledge = Record<string, Record<number, DieKnowledge>>;
+
+/**
+ * Everything a bot may base a decision on - exactly what a human in the same seat can see
+ */
+export interface BotObservation {
+  playerId: string;
+  gameState: PublicGameState;
+  dice: Die[];
+  cards: Card[];
+  playableCardIds: string[];
+  knowledge: BotKnowledge;
+}
+
+export type BotDecision =
+  | { type: 'make_bid'; quantity: number; faceValue: number }
+  | { type: 'call_dudo'; targetBidIndex?: number } // An earlier bid, with Late Dudo active
+  | { type: 'call_jonti' }
+  | { type: 'call_calza' }
+  | { type: 'play_card'; card: PlayCardPayload };
+
+/**
+ * A way of playing a bot seat. `decide` is called whenever the bot may act and returns
+ * null when it has nothing to do; moves the rules reject are replaced by a safe fallback.
+ */
+export interface BotStrategy {
+  id: string;
+  name: string;
+  description: string;
+  decide(observation: BotObservation, random: RandomFn): BotDecision | null;
+}
+
+interface BotProfile {
+  noise: number;           // Spread of the error added to every probability the bot reads
+  dudoMargin: number;      // Bias towards raising instead of challenging
+  callsExact: boolean;     // Whether the bot ever calls Jonti or Calza
+  bluffChance: number;     // How often a weaker raise is chosen on purpose
+  cards: CardType[];       // Cards the bot knows how to use
+}
+
+// How much an exact call's expected value must beat zero (misjudged exact calls are costly)
+const EXACT_CALL_MARGIN = 0.2;
+
+// How much a card that reshapes the bidding must beat the best plain move by (it costs the card)
+const CARD_PLAY_MARGIN = 0.1;
+
+// Below this chance of being true, a raise is worth a Phantom Bid or a False Tell
+const WEAK_RAISE_PROBABILITY = 0.5;
+
+const BOT_PROFILES: Record<BotDifficulty, BotProfile> = {
+  easy: {
+    noise: 0.25,
+    dudoMargin: 0.1,
+    callsExact: false,
+    bluffChance: 0,
+    cards: []
+  },
+  medium: {
+    noise: 0.1,
+    dudoMargin: 0.2,
+    callsExact: true,
+    bluffChance: 0.1,
+    cards: ['peek', 'inflation', 'insurance', 'reroll_one']
+  },
+  hard: {
+    noise: 0.02,
+    dudoMargin: 0.4,
+    callsExact: true,
+    bluffChance: 0,
+    cards: [
+      'peek', 'gauge', 'false_tell', 'inflation', 'wild_shift', 'phantom_bid', 'insurance',
+      'double_dudo', 'late_dudo', 'reroll_one', 'blind_swap', 'polish', 'crack'
+    ]
+  }
+};
+
+/**
+ * Pick a name for a new bot that nobody at the table is using
+ */
+export function getBotName(takenNames: string[], random: RandomFn = Math.random): string {
+  const available = BOT_NAMES.filter(name => !takenNames.includes(`Bot ${name}`));
+  if (available.length === 0) {
+    return `Bot ${takenNames.length + 1}`;
+  }
+  return `Bot ${available[randomInt(random, available.length)]}`;
+}
+
+/**
+ * Build a bot's view of the game from the full state, hiding everything its seat could not see
+ */
+export function createBotObservation(state: GameState, playerId: string, knowledge: BotKnowledge): BotObservation {
+  const player = state.players.find(p => p.id === playerId);
+  return {
+    playerId,
+    gameState: toPublicGameState(state),
+    dice: player?.dice ?? [],
+    cards: player?.cards ?? [],
+    playableCardIds: getPlayableCardsForPlayer(state, playerId).map(c => c.id),
+    knowledge
+  };
+}
+
+/**
+ * Remember what a Peek or Gauge told the bot; other cards teach it nothing
+ */
+export function updateBotKnowledge(
+  knowledge: BotKnowledge,
+  payload: PlayCardPayload,
+  result: CardResult | undefined
+): BotKnowledge {
+  if (result?.cardType === 'peek' && payload.targetPlayerId && payload.additionalData?.dieIndex !== undefined) {
+    return {
+      ...knowledge,
+      [payload.targetPlayerId]: {
+        ...knowledge[payload.targetPlayerId],
+        [payload.additionalData.dieIndex]: { type: result.die.type, faceValue: result.die.faceValue }
+      }
+    };
+  }
+
+  if (result?.cardType === 'gauge') {
+    let updated = knowledge;
+    const dieIds = payload.additionalData?.dieIds ?? [];
+    dieIds.forEach((dieKey, i) => {
+      const info = result.dieInfos[i];
+      const separator = dieKey.lastIndexOf('-');
+      const playerId = dieKey.slice(0, separator);
+      const dieIndex = parseInt(dieKey.slice(separator + 1), 10);
+      if (!info || info.playerId !== playerId) return;
+      const previous = updated[playerId]?.[dieIndex];
+      updated = {
+        ...updated,
+        [playerId]: { ...updated[playerId], [dieIndex]: { ...previous, type: info.dieType } }
+      };
+    });
+    return updated;
+  }
+
+  return knowledge;
+}
+
+// ============================================
+// Strategies
+// ============================================
+
+export const BUILT_IN_BOT_STRATEGIES: BotStrategy[] = [
+  {
+    id: 'easy',
+    name: 'Easy',
+    description: 'Misreads the odds often and never plays cards',
+    decide: (observation, random) => decideBotAction(observation, 'easy', random)
+  },
+  {
+    id: 'medium',
+    name: 'Medium',
+    description: 'Reads the odds fairly well, calls Jonti and Calza, uses Peek, Inflation, Insurance and Re-roll One',
+    decide: (observation, random) => decideBotAction(observation, 'medium', random)
+  },
+  {
+    id: 'hard',
+    name: 'Hard',
+    description: 'Reads the odds almost perfectly, only challenges a bid it is sure of, and plays every card',
+    decide: (observation, random) => decideBotAction(observation, 'hard', random)
+  }
+];
+
+export const DEFAULT_BOT_STRATEGY_ID = 'medium';
+
+/**
+ * Check that a strategy returned something shaped like a decision (the rules check the rest)
+ */
+export function isBotDecision(value: unknown): value is BotDecision {
+  if (typeof value !== 'object' || value === null) return false;
+  const decision = value as Record<string, unknown>;
+  switch (decision.type) {
+    case 'make_bid':
+      return Number.isInteger(decision.quantity) && Number.isInteger(decision.faceValue);
+    case 'call_dudo':
+      return decision.targetBidIndex === undefined || Number.isInteger(decision.targetBidIndex);
+    case 'call_jonti':
+    case 'call_calza':
+      return true;
+    case 'play_card':
+      return typeof decision.card === 'object' && decision.card !== null &&
+        'cardId' in decision.card && typeof decision.card.cardId === 'string';
+    default:
+      return false;
+  }
+}
+
+/**
+ * The move made for a bot whose strategy failed on its turn: challenge the standing bid, or open low
+ */
+export function getFallbackBotDecision(observation: BotObservation): BotDecision {
+  if (observation.gameState.currentBid) {
+    return { type: 'call_dudo' };
+  }
+  return { type: 'make_bid', quantity: 1, faceValue: observation.gameState.roundModifier?.lockedFaceValue ?? 2 };
+}
+
+// ============================================
+// Built-in Decisions
+// ============================================
+
+/**
+ * The player whose turn it is (the turn index counts active players only)
+ */
+export function getCurrentPublicPlayer(state: PublicGameState): PublicPlayerInfo | null {
+  const activePlayers = state.players.filter(p => !p.isEliminated && p.diceCount > 0);
+  if (activePlayers.length === 0) return null;
+  return activePlayers[state.currentTurnIndex % activePlayers.length];
+}
+
+/**
+ * Decide what a bot does next, or null if it has nothing to do right now
+ */
+export function decideBotAction(observation: BotObservation, difficulty: BotDifficulty, random: RandomFn = Math.random): BotDecision | null {
+  const state = observation.gameState;
+  const profile = BOT_PROFILES[difficulty];
+  const me = state.players.find(p => p.id === observation.playerId);
+  if (state.phase !== 'bidding' || !me || me.isEliminated || observation.dice.length === 0) {
+    return null;
+  }
+
+  const isMyTurn = getCurrentPublicPlayer(state)?.id === observation.playerId;
+  const table = calculateBidProbabilities({
+    myDice: observation.dice,
+    opponents: state.players
+      .filter(p => p.id !== observation.playerId && !p.isEliminated)
+      .map(p => ({ diceCount: p.diceCount, knownDice: Object.values(observation.knowledge[p.id] ?? {}) })),
+    onesWild: state.roundModifier?.type !== 'last_stand',
+    mode: state.settings.mode
+  });
+
+  // Every probability the bot reads is blurred by its difficulty
+  const perceive = (p: number) => Math.min(1, Math.max(0, p + (random() + random() - 1) * profile.noise));
+
+  const currentBid = state.currentBid;
+  const exactChance = currentBid ? perceive(getExactBidProbability(table, currentBid.quantity, currentBid.faceValue)) : 0;
+
+  // Calza wins a die with the exact count and loses one otherwise; a full hand has nothing to win.
+  // It can be called at any moment, so only call it when the odds beat the bot's own misreading.
+  const canCalza = state.settings.enableCalza && !!currentBid && currentBid.playerId !== observation.playerId;
+  if (canCalza && profile.callsExact && observation.dice.length < MAX_DICE_PER_PLAYER && 2 * exactChance - 1 > EXACT_CALL_MARGIN + profile.noise) {
+    return { type: 'call_calza' };
+  }
+  if (!isMyTurn) {
+    return null;
+  }
+
+  const cardDecision = decideInformationCard(observation, profile, random);
+  if (cardDecision) {
+    return cardDecision;
+  }
+
+  const raise = chooseRaise(observation, table, profile, random);
+  if (!currentBid) {
+    return raise
+      ? { type: 'make_bid', quantity: raise.quantity, faceValue: raise.faceValue }
+      : { type: 'make_bid', quantity: 1, faceValue: 2 };
+  }
+
+  // Weigh each option in expected dice: losing one of ours counts -1, an opponent losing one +0.5.
+  // A raise only costs a die if someone challenges it, so its risk counts for half.
+  const bidFalse = perceive(1 - getBidSuccessProbability(table, currentBid.quantity, currentBid.faceValue));
+  const dudoValue = getChallengeValue(bidFalse);
+  const jontiValue = profile.callsExact ? 2 * exactChance - 1 - EXACT_CALL_MARGIN - profile.noise : -Infinity;
+  const raiseValue = raise ? -(1 - perceive(raise.probability)) * 0.5 + profile.dudoMargin : -Infinity;
+
+  const bestValue = Math.max(dudoValue, jontiValue, raiseValue);
+  const bestMove = raiseValue === bestValue ? 'raise' : dudoValue === bestValue ? 'dudo' : 'jonti';
+  const bidCard = decideBidCard(observation, profile, table, perceive, raise, bestMove, bestValue);
+  if (bidCard) {
+    return bidCard;
+  }
+
+  if (bestMove === 'jonti') {
+    return { type: 'call_jonti' };
+  }
+  if (bestMove === 'dudo') {
+    // With Late Dudo active, challenge whichever bid on the table looks weakest
+    const earlierBid = me.activeEffects.lateDudo ? findWeakerEarlierBid(observation, table, perceive, 0) : null;
+    return decideDudoCard(observation, profile, bidFalse) ??
+      (earlierBid ? { type: 'call_dudo', targetBidIndex: earlierBid.index } : { type: 'call_dudo' });
+  }
+  return { type: 'make_bid', quantity: raise!.quantity, faceValue: raise!.faceValue };
+}
+
+/**
+ * Expected dice from a challenge the bot believes is right with the given chance
+ */
+function getChallengeValue(bidFalse: number): number {
+  return bidFalse * 0.5 - (1 - bidFalse);
+}
+
+/**
+ * Pick the next bid: usually the most likely legal raise, sometimes a bluff
+ */
+function chooseRaise(
+  observation: BotObservation,
+  table: BidProbabilityTable,
+  profile: BotProfile,
+  random: RandomFn
+): { quantity: number; faceValue: number; probability: number } | null {
+  const state = observation.gameState;
+  const onesWild = state.roundModifier?.type !== 'last_stand';
+  const me = state.players.find(p => p.id === observation.playerId);
+
+  // Opening bids and Phantom Bids ignore the increment rules
+  const isFreeBid = !state.currentBid || !!me?.activeEffects.phantomBid;
+
+  // During Last Stand only players down to one die may change the locked face
+  const lockedFace = state.roundModifier?.lockedFaceValue ?? null;
+  const faces = [1, 2, 3, 4, 5, 6].filter(face => lockedFace === null || observation.dice.length === 1 || face === lockedFace);
+
+  // Repeating a bid from this round adds nothing, and the 1s conversion would let bids cycle forever
+  const madeThisRound = state.currentBid ? [...state.previousBids, state.currentBid] : [];
+
+  const candidates = faces
+    .map(faceValue => {
+      let quantity = isFreeBid ? 1 : getMinimumBidQuantity(state.currentBid, faceValue, onesWild);
+
+      // Free bids start near the expected count rather than at one
+      if (isFreeBid) {
+        while (quantity < table.totalDice && getBidSuccessProbability(table, quantity + 1, faceValue) >= 0.6) {
+          quantity++;
+        }
+      }
+      while (madeThisRound.some(bid => bid.quantity === quantity && bid.faceValue === faceValue)) {
+        quantity++;
+      }
+      return { quantity, faceValue, probability: getBidSuccessProbability(table, quantity, faceValue) };
+    })
+    .filter(c => c.quantity <= table.totalDice);
+
+  if (candidates.length === 0) return null;
+
+  candidates.sort((a, b) => b.probability - a.probability);
+  if (random() < profile.bluffChance && candidates.length > 1) {
+    const bluffs = candidates.filter(c => c.probability >= 0.3 && c !== candidates[0]);
+    if (bluffs.length > 0) {
+      return bluffs[randomInt(random, bluffs.length)];
+    }
+  }
+
+  // Easy bots don't always see the best option
+  if (profile.noise >= 0.2 && candidates.length > 1 && random() < 0.3) {
+    return candidates[1];
+  }
+  return candidates[0];
+}
+
+/**
+ * The earlier bid (by someone else) that looks weakest, if it looks weaker than the standing bid by the margin.
+ * Every bidder is credited with one die of the face they bid, since they bid knowing their own hand.
+ */
+function findWeakerEarlierBid(
+  observation: BotObservation,
+  table: BidProbabilityTable,
+  perceive: (p: number) => number,
+  margin: number
+): { index: number; bidFalse: number } | null {
+  const { currentBid, previousBids } = observation.gameState;
+  if (!currentBid) return null;
+
+  const creditedFalse = (quantity: number, faceValue: number) =>
+    perceive(1 - getBidSuccessProbability(table, quantity - 1, faceValue));
+  let weakest: { index: number; bidFalse: number } | null = null;
+  let threshold = creditedFalse(currentBid.quantity, currentBid.faceValue) + margin;
+  previousBids.forEach((bid, index) => {
+    if (bid.playerId === observation.playerId) return;
+    const bidFalse = creditedFalse(bid.quantity, bid.faceValue);
+    if (bidFalse > threshold) {
+      weakest = { index, bidFalse };
+      threshold = bidFalse;
+    }
+  });
+  return weakest;
+}
+
+/**
+ * A die that backs neither the face we hold most of nor (as a wild) anything else
+ */
+function findWeakDie(dice: Die[]): Die | undefined {
+  const counts = [0, 0, 0, 0, 0, 0];
+  dice.forEach(d => counts[d.faceValue - 1]++);
+  const bestFace = counts.slice(1).indexOf(Math.max(...counts.slice(1))) + 2;
+  return dice.find(d => d.faceValue !== 1 && d.faceValue !== bestFace);
+}
+
+/**
+ * Spend a turn card to learn about (or change) dice before bidding
+ */
+function decideInformationCard(observation: BotObservation, profile: BotProfile, random: RandomFn): BotDecision | null {
+  const playable = observation.cards.filter(c => observation.playableCardIds.includes(c.id) && profile.cards.includes(c.type));
+  const opponents = observation.gameState.players.filter(p => p.id !== observation.playerId && !p.isEliminated && p.diceCount > 0);
+  const isOpening = !observation.gameState.currentBid;
+
+  // Dice of opponents the bot knows nothing about yet
+  const unknownDice = opponents.flatMap(p =>
+    Array.from({ length: p.diceCount }, (_, dieIndex) => ({ playerId: p.id, dieIndex }))
+      .filter(({ dieIndex }) => !observation.knowledge[p.id]?.[dieIndex])
+  );
+
+  // The opponent with the most dice is the one to weaken or take from
+  const leader = opponents.reduce<PublicPlayerInfo | null>((best, p) => (!best || p.diceCount > best.diceCount ? p : best), null);
+
+  for (const card of playable) {
+    if (card.type === 'peek') {
+      const peekable = opponents.flatMap(p =>
+        Array.from({ length: p.diceCount }, (_, dieIndex) => ({ playerId: p.id, dieIndex }))
+          .filter(({ dieIndex }) => observation.knowledge[p.id]?.[dieIndex]?.faceValue === undefined)
+      );
+      if (peekable.length === 0) continue;
+      const target = peekable[randomInt(random, peekable.length)];
+      return {
+        type: 'play_card',
+        card: { cardId: card.id, targetPlayerId: target.playerId, additionalData: { dieIndex: target.dieIndex } }
+      };
+    }
+
+    if (card.type === 'gauge' && unknownDice.length >= 2 && observation.gameState.settings.mode !== 'classic') {
+      const first = unknownDice.splice(randomInt(random, unknownDice.length), 1)[0];
+      const second = unknownDice[randomInt(random, unknownDice.length)];
+      return {
+        type: 'play_card',
+        card: {
+          cardId: card.id,
+          additionalData: { dieIds: [`${first.playerId}-${first.dieIndex}`, `${second.playerId}-${second.dieIndex}`] }
+        }
+      };
+    }
+
+    // Re-roll, or trade away, a die that doesn't back the face we hold most of
+    if (card.type === 'reroll_one' && isOpening) {
+      const weakDie = findWeakDie(observation.dice);
+      if (weakDie) {
+        return { type: 'play_card', card: { cardId: card.id, targetDieId: weakDie.id } };
+      }
+    }
+
+    if (card.type === 'blind_swap' && isOpening && leader) {
+      const weakDie = findWeakDie(observation.dice);
+      if (weakDie) {
+        return { type: 'play_card', card: { cardId: card.id, targetDieId: weakDie.id, targetPlayerId: leader.id } };
+      }
+    }
+
+    // Grow our smallest die, so it can roll every face again
+    if (card.type === 'polish') {
+      const growable = observation.dice
+        .filter(d => DICE_ORDER.indexOf(d.type) < DICE_ORDER.indexOf('d6'))
+        .sort((a, b) => DICE_ORDER.indexOf(a.type) - DICE_ORDER.indexOf(b.type));
+      if (growable.length > 0) {
+        return { type: 'play_card', card: { cardId: card.id, targetDieId: growable[0].id } };
+      }
+    }
+
+    // Shrink one of the leader's dice, preferring one known to be large (a d3 can't shrink)
+    if (card.type === 'crack' && leader) {
+      const known = observation.knowledge[leader.id] ?? {};
+      const dieIndexes = Array.from({ length: leader.diceCount }, (_, dieIndex) => dieIndex)
+        .filter(dieIndex => known[dieIndex]?.type !== 'd3')
+        .sort((a, b) => DICE_ORDER.indexOf(known[b]?.type ?? 'd6') - DICE_ORDER.indexOf(known[a]?.type ?? 'd6'));
+      if (dieIndexes.length > 0) {
+        return { type: 'play_card', card: { cardId: card.id, targetPlayerId: leader.id, additionalData: { dieIndex: dieIndexes[0] } } };
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Play a card that changes what can be bid or challenged when it beats the best plain move:
+ * push someone else's bid out of reach before challenging it, reach back to a weaker earlier bid,
+ * or (when the only raises are long shots) bid freely or sell the bluff
+ */
+function decideBidCard(
+  observation: BotObservation,
+  profile: BotProfile,
+  table: BidProbabilityTable,
+  perceive: (p: number) => number,
+  raise: { probability: number } | null,
+  bestMove: 'raise' | 'dudo' | 'jonti',
+  bestValue: number
+): BotDecision | null {
+  const state = observation.gameState;
+  const currentBid = state.currentBid!;
+  const me = state.players.find(p => p.id === observation.playerId);
+  const playable = observation.cards.filter(c => observation.playableCardIds.includes(c.id) && profile.cards.includes(c.type));
+  const findCard = (type: CardType) => playable.find(c => c.type === type);
+  const beatsBest = (bidFalse: number) => getChallengeValue(bidFalse) > bestValue + CARD_PLAY_MARGIN;
+
+  if (currentBid.playerId !== observation.playerId) {
+    const inflation = findCard('inflation');
+    if (inflation && beatsBest(perceive(1 - getBidSuccessProbability(table, currentBid.quantity + 1, currentBid.faceValue)))) {
+      return { type: 'play_card', card: { cardId: inflation.id } };
+    }
+
+    const wildShift = findCard('wild_shift');
+    if (wildShift && state.roundModifier?.type !== 'last_stand') {
+      const shifted = [1, 2, 3, 4, 5, 6]
+        .filter(faceValue => faceValue !== currentBid.faceValue)
+        .map(faceValue => ({ faceValue, bidFalse: perceive(1 - getBidSuccessProbability(table, currentBid.quantity, faceValue)) }))
+        .sort((a, b) => b.bidFalse - a.bidFalse)[0];
+      if (beatsBest(shifted.bidFalse)) {
+        return { type: 'play_card', card: { cardId: wildShift.id, additionalData: { faceValue: shifted.faceValue } } };
+      }
+    }
+  }
+
+  const lateDudo = findCard('late_dudo');
+  if (lateDudo && !me?.activeEffects.lateDudo) {
+    if (bestMove === 'dudo' && findWeakerEarlierBid(observation, table, perceive, CARD_PLAY_MARGIN)) {
+      return { type: 'play_card', card: { cardId: lateDudo.id } };
+    }
+  }
+
+  if (bestMove === 'raise' && raise && raise.probability < WEAK_RAISE_PROBABILITY && !me?.activeEffects.phantomBid) {
+    const phantomBid = findCard('phantom_bid');
+    if (phantomBid) {
+      return { type: 'play_card', card: { cardId: phantomBid.id } };
+    }
+    const falseTell = findCard('false_tell');
+    if (falseTell) {
+      return { type: 'play_card', card: { cardId: falseTell.id } };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Back a Dudo call with Insurance or Double Dudo before making it
+ */
+function decideDudoCard(observation: BotObservation, profile: BotProfile, bidFalse: number): BotDecision | null {
+  const me = observation.gameState.players.find(p => p.id === observation.playerId);
+  const playable = observation.cards.filter(c => observation.playableCardIds.includes(c.id) && profile.cards.includes(c.type));
+
+  const insurance = playable.find(c => c.type === 'insurance');
+  if (insurance && !me?.activeEffects.insurance && bidFalse < 0.75) {
+    return { type: 'play_card', card: { cardId: insurance.id } };
+  }
+
+  const doubleDudo = playable.find(c => c.type === 'double_dudo');
+  if (doubleDudo && !me?.activeEffects.doubleDudo && bidFalse >= 0.85) {
+    return { type: 'play_card', card: { cardId: doubleDudo.id } };
+  }
+
+  return null;
+}
@@ -2,8 +2,9 @@
 // Perudo+ Card System Module
 // ============================================
 
-import { v4 as uuidv4 } from 'uuid';
 import { Card, CardType, CardTiming } from './types';
+import { v4 as uuidv4 } from 'uuid';
+import { RandomFn, IdFn, randomInt } from './random';
 
 // Card definitions
 export const CARD_DEFINITIONS: Record<CardType, Omit<Card, 'id'>> = {
@@ -130,10 +131,10 @@ export const CHAOS_CARD_FREQUENCY: Record<CardType, number> = {
 /**
  * Create a card instance from a card type
  */
-export function createCard(cardType: CardType): Card {
+export function createCard(cardType: CardType, newId: IdFn = uuidv4): Card {
   const definition = CARD_DEFINITIONS[cardType];
   return {
-    id: uuidv4(),
+    id: newId(),
     ...definition
   };
 }
@@ -141,26 +142,26 @@ export function createCard(cardType: CardType): Card {
 /**
  * Create a shuffled deck of cards
  */
-export function createDeck(chaosMode: boolean = false): Card[] {
+export function createDeck(chaosMode: boolean = false, random: RandomFn = Math.random, newId: IdFn = uuidv4): Card[] {
   const frequency = chaosMode ? CHAOS_CARD_FREQUENCY : CARD_FREQUENCY;
   const deck: Card[] = [];
 
   for (const [cardType, count] of Object.entries(frequency)) {
     for (let i = 0; i < count; i++) {
-      deck.push(createCard(cardType as CardType));
+      deck.push(createCard(cardType as CardType, newId));
     }
   }
 
-  return shuffleDeck(deck);
+  return shuffleDeck(deck, random);
 }
 
 /**
  * Shuffle a deck of cards (Fisher-Yates algorithm)
  */
-export function shuffleDeck(deck: Card[]): Card[] {
+export function shuffleDeck(deck: Card[], random: RandomFn = Math.random): Card[] {
   const shuffled = [...deck];
   for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = randomInt(random, i + 1);
     [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
   }
   return shuffled;
@@ -177,6 +178,22 @@ export function drawCard(deck: Card[]): { card: Card | null; remainingDeck: Card
   return { card, remainingDeck };
 }
 
+/**
+ * Draw a card, reshuffling the discard pile into the deck when the deck is empty
+ */
+export function drawCardWithReshuffle(
+  deck: Card[],
+  discardPile: Card[],
+  random: RandomFn = Math.random
+): { card: Card | null; remainingDeck: Card[]; discardPile: Card[] } {
+  if (deck.length === 0 && discardPile.length > 0) {
+    const { card, remainingDeck } = drawCard(shuffleDeck(discardPile, random));
+    return { card, remainingDeck, discardPile: [] };
+  }
+  const { card, remainingDeck } = drawCard(deck);
+  return { card, remainingDeck, discardPile };
+}
+
 /**
  * Check if a card can be played at the current timing
  */
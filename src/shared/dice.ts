@@ -2,8 +2,9 @@
 // Perudo+ Dice Logic Module
 // ============================================
 
-import { v4 as uuidv4 } from 'uuid';
 import { Die, DieType } from './types';
+import { v4 as uuidv4 } from 'uuid';
+import { RandomFn, IdFn, randomInt } from './random';
 
 // Dice face mappings - all dice map to values 1-6
 // Larger dice have more consistent low values
@@ -21,67 +22,67 @@ export const DICE_ORDER: DieType[] = ['d3', 'd4', 'd6', 'd8', 'd10'];
 /**
  * Roll a single die and return its normalized face value (1-6)
  */
-export function rollDie(dieType: DieType): number {
+export function rollDie(dieType: DieType, random: RandomFn = Math.random): number {
   const faces = DICE_FACES[dieType];
-  const randomIndex = Math.floor(Math.random() * faces.length);
+  const randomIndex = randomInt(random, faces.length);
   return faces[randomIndex];
 }
 
 /**
  * Create a new die of the specified type
  */
-export function createDie(dieType: DieType): Die {
+export function createDie(dieType: DieType, random: RandomFn = Math.random, newId: IdFn = uuidv4): Die {
   return {
-    id: uuidv4(),
+    id: newId(),
     type: dieType,
-    faceValue: rollDie(dieType)
+    faceValue: rollDie(dieType, random)
   };
 }
 
 /**
  * Re-roll an existing die
  */
-export function rerollDie(die: Die): Die {
+export function rerollDie(die: Die, random: RandomFn = Math.random): Die {
   return {
     ...die,
-    faceValue: rollDie(die.type)
+    faceValue: rollDie(die.type, random)
   };
 }
 
 /**
  * Get a random die type (for starting loadout)
  */
-export function getRandomDieType(exclude: DieType[] = ['d6']): DieType {
+export function getRandomDieType(exclude: DieType[] = ['d6'], random: RandomFn = Math.random): DieType {
   const available = DICE_ORDER.filter(d => !exclude.includes(d));
-  return available[Math.floor(Math.random() * available.length)];
+  return available[randomInt(random, available.length)];
 }
 
 /**
  * Create starting dice loadout for a player
  * Default: 3 x d6 + 2 random (d3, d4, d8, or d10)
  */
-export function createStartingDice(): Die[] {
+export function createStartingDice(random: RandomFn = Math.random, newId: IdFn = uuidv4): Die[] {
   return [
-    createDie('d6'),
-    createDie('d6'),
-    createDie('d6'),
-    createDie(getRandomDieType(['d6'])),
-    createDie(getRandomDieType(['d6']))
+    createDie('d6', random, newId),
+    createDie('d6', random, newId),
+    createDie('d6', random, newId),
+    createDie(getRandomDieType(['d6'], random), random, newId),
+    createDie(getRandomDieType(['d6'], random), random, newId)
   ];
 }
 
 /**
  * Create starting dice for classic mode (all d6)
  */
-export function createClassicDice(count: number = 5): Die[] {
-  return Array.from({ length: count }, () => createDie('d6'));
+export function createClassicDice(count: number = 5, random: RandomFn = Math.random, newId: IdFn = uuidv4): Die[] {
+  return Array.from({ length: count }, () => createDie('d6', random, newId));
 }
 
 /**
  * Roll all dice for a player
  */
-export function rollAllDice(dice: Die[]): Die[] {
-  return dice.map(die => rerollDie(die));
+export function rollAllDice(dice: Die[], random: RandomFn = Math.random): Die[] {
+  return dice.map(die => rerollDie(die, random));
 }
 
 /**
@@ -0,0 +1,187 @@
+// ============================================
+// Perudo+ Provably Fair Dice (Commit–Reveal)
+// ============================================
+
+import { Die, DiceCommitment, DiceReveal, DiceVerificationResult } from './types';
+
+// SHA-256 round constants
+const K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+]);
+
+/**
+ * SHA-256 of raw bytes.
+ * Implemented here so the server and every browser (including plain-HTTP LAN hosts,
+ * where crypto.subtle is unavailable) hash commitments identically.
+ */
+export function sha256(bytes: Uint8Array): Uint8Array {
+  const bitLength = bytes.length * 8;
+  const paddedLength = Math.ceil((bytes.length + 9) / 64) * 64;
+  const data = new Uint8Array(paddedLength);
+  data.set(bytes);
+  data[bytes.length] = 0x80;
+  const view = new DataView(data.buffer);
+  view.setUint32(paddedLength - 8, Math.floor(bitLength / 0x100000000));
+  view.setUint32(paddedLength - 4, bitLength >>> 0);
+
+  const hash = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a,
+    0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19
+  ]);
+  const w = new Uint32Array(64);
+  const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+
+  for (let offset = 0; offset < paddedLength; offset += 64) {
+    for (let i = 0; i < 16; i++) {
+      w[i] = view.getUint32(offset + i * 4);
+    }
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = (w[i - 16] + s0 + w[i - 7] + s1) >>> 0;
+    }
+
+    let [a, b, c, d, e, f, g, h] = hash;
+    for (let i = 0; i < 64; i++) {
+      const s1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+      const ch = (e & f) ^ (~e & g);
+      const temp1 = (h + s1 + ch + K[i] + w[i]) >>> 0;
+      const s0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      const temp2 = (s0 + maj) >>> 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + temp1) >>> 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (temp1 + temp2) >>> 0;
+    }
+
+    hash[0] += a; hash[1] += b; hash[2] += c; hash[3] += d;
+    hash[4] += e; hash[5] += f; hash[6] += g; hash[7] += h;
+  }
+
+  const digest = new Uint8Array(32);
+  const digestView = new DataView(digest.buffer);
+  hash.forEach((word, i) => digestView.setUint32(i * 4, word));
+  return digest;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * SHA-256 of a UTF-8 string as lowercase hex
+ */
+export function sha256Hex(input: string): string {
+  return toHex(sha256(new TextEncoder().encode(input)));
+}
+
+/**
+ * HMAC-SHA256 (RFC 2104) of a UTF-8 message under a UTF-8 key
+ */
+export function hmacSha256(key: string, message: string): Uint8Array {
+  const encoder = new TextEncoder();
+  let keyBytes: Uint8Array = encoder.encode(key);
+  if (keyBytes.length > 64) keyBytes = sha256(keyBytes);
+
+  const inner = new Uint8Array(64);
+  const outer = new Uint8Array(64);
+  for (let i = 0; i < 64; i++) {
+    inner[i] = (keyBytes[i] ?? 0) ^ 0x36;
+    outer[i] = (keyBytes[i] ?? 0) ^ 0x5c;
+  }
+
+  const messageBytes = encoder.encode(message);
+  const innerInput = new Uint8Array(64 + messageBytes.length);
+  innerInput.set(inner);
+  innerInput.set(messageBytes, 64);
+  const outerInput = new Uint8Array(64 + 32);
+  outerInput.set(outer);
+  outerInput.set(sha256(innerInput), 64);
+  return sha256(outerInput);
+}
+
+/**
+ * Canonical string that a dice commitment hashes
+ */
+function getCommitmentInput(playerId: string, version: number, dice: Die[], salt: string): string {
+  return JSON.stringify([playerId, version, salt, dice.map(d => [d.id, d.type, d.faceValue])]);
+}
+
+/**
+ * Commit to a player's hand; the salt stays secret until the reveal
+ */
+export function createDiceCommitment(playerId: string, version: number, dice: Die[], salt: string): DiceCommitment {
+  return {
+    playerId,
+    version,
+    hash: sha256Hex(getCommitmentInput(playerId, version, dice, salt))
+  };
+}
+
+/**
+ * Check revealed salts and dice against the commitments received during the round.
+ * Every commitment must be opened by a matching reveal, and each player's latest
+ * reveal must match the dice shown in the round result.
+ */
+export function verifyDiceReveals(
+  commitments: DiceCommitment[],
+  reveals: DiceReveal[],
+  revealedDice: { playerId: string; dice: Die[] }[]
+): DiceVerificationResult {
+  const mismatched = new Set<string>();
+  const revealByKey = new Map(reveals.map(r => [`${r.playerId}:${r.version}`, r]));
+  const commitmentByKey = new Map(commitments.map(c => [`${c.playerId}:${c.version}`, c]));
+
+  for (const commitment of commitments) {
+    const reveal = revealByKey.get(`${commitment.playerId}:${commitment.version}`);
+    if (!reveal) {
+      mismatched.add(commitment.playerId);
+      continue;
+    }
+    const expected = createDiceCommitment(reveal.playerId, reveal.version, reveal.dice, reveal.salt);
+    if (expected.hash !== commitment.hash) {
+      mismatched.add(commitment.playerId);
+    }
+  }
+
+  // A reveal without a commitment could be a substituted hand
+  for (const reveal of reveals) {
+    if (!commitmentByKey.has(`${reveal.playerId}:${reveal.version}`)) {
+      mismatched.add(reveal.playerId);
+    }
+  }
+
+  // The dice used to settle the round must be the last committed hand
+  for (const { playerId, dice } of revealedDice) {
+    const latest = reveals
+      .filter(r => r.playerId === playerId)
+      .reduce<DiceReveal | null>((best, r) => (!best || r.version > best.version ? r : best), null);
+    if (!latest) {
+      if (dice.length > 0) mismatched.add(playerId);
+      continue;
+    }
+    const sameDice = latest.dice.length === dice.length &&
+      latest.dice.every((d, i) => d.id === dice[i].id && d.type === dice[i].type && d.faceValue === dice[i].faceValue);
+    if (!sameDice) {
+      mismatched.add(playerId);
+    }
+  }
+
+  return {
+    checkedCount: commitments.length,
+    verified: commitments.length > 0 && mismatched.size === 0,
+    mismatchedPlayerIds: Array.from(mismatched)
+  };
+}
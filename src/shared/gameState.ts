@@ -14,9 +14,19 @@ import {
   Die,
   DudoResult,
   JontiResult,
+  CalzaResult,
   PublicGameState,
   PublicPlayerInfo,
-  ActiveEffects
+  ActiveEffects,
+  RoundModifier,
+  CardTiming,
+  GameEvent,
+  PrivateEventDetail,
+  PlayCardPayload,
+  TurnTimer,
+  PlayerTimeBank,
+  PlayerNetworkInfo,
+  DisconnectAction
 } from './types';
 import {
   createStartingDice,
@@ -29,9 +39,32 @@ import {
 } from './dice';
 import {
   createDeck,
-  drawCard,
+  drawCardWithReshuffle,
+  canPlayCard,
   MAX_HAND_SIZE
 } from './cards';
+import {
+  RandomFn,
+  IdFn,
+  SeededRandom,
+  createSeededRandom,
+  generateSeed,
+  randomInt
+} from './random';
+
+/**
+ * Maximum dice a player can hold (a successful Calza cannot exceed this)
+ */
+export const MAX_DICE_PER_PLAYER = 5;
+
+/**
+ * Bounds on what the host may configure (the server rejects settings outside them)
+ */
+export const MIN_PLAYERS = 2;
+export const MAX_PLAYERS = 6;
+export const MAX_TURN_TIME_LIMIT_SECONDS = 600;
+export const MAX_TIME_BANK_SECONDS = 3600;
+export const MAX_DISCONNECT_WAIT_SECONDS = 3600;
 
 /**
  * Create default game settings
@@ -41,7 +74,15 @@ export function createDefaultSettings(mode: GameMode = 'tactical'): GameSettings
     mode,
     maxPlayers: 5,
     enableCalza: false,
-    enableLastStand: false
+    enableLastStand: false,
+    allowOddsOverlay: true,
+    turnTimeLimit: 0,
+    turnTimeoutAction: 'min_raise',
+    timeBank: 0,
+    timeBankIncrement: 0,
+    disconnectGracePeriod: 60,
+    disconnectAction: 'skip',
+    disconnectForfeitTime: 300
   };
 }
 
@@ -71,16 +112,19 @@ export function createPlayer(name: string, isHost: boolean = false, ip: string =
     isConnected: true,
     isHost,
     isEliminated: false,
-    activeEffects: createDefaultActiveEffects()
+    hasHadLastStand: false,
+    activeEffects: createDefaultActiveEffects(),
+    botStrategyId: null,
+    awayMode: null
   };
 }
 
 /**
  * Create initial game state
  */
-export function createGameState(settings: GameSettings = createDefaultSettings()): GameState {
+export function createGameState(settings: GameSettings = createDefaultSettings(), id: string = uuidv4()): GameState {
   return {
-    id: uuidv4(),
+    id,
     phase: 'lobby',
     settings,
     players: [],
@@ -90,10 +134,35 @@ export function createGameState(settings: GameSettings = createDefaultSettings()
     roundNumber: 0,
     winnerId: null,
     lastDudoResult: null,
-    pausedFromPhase: null
+    pausedFromPhase: null,
+    roundModifier: null,
+    forfeitedPlayerId: null,
+    deck: [],
+    discardPile: [],
+    seed: null,
+    rngState: 0
   };
 }
 
+/**
+ * The game's seeded RNG at its current position
+ */
+function getGameRandom(state: GameState): SeededRandom {
+  if (state.seed === null) {
+    throw new Error('Game has not started');
+  }
+  return createSeededRandom(state.seed, state.rngState);
+}
+
+/**
+ * Run a state transition with the game's seeded RNG and store the advanced RNG state
+ */
+function withRandom(state: GameState, transition: (random: RandomFn, newId: IdFn) => GameState): GameState {
+  const rng = getGameRandom(state);
+  const newState = transition(rng.random, rng.id);
+  return { ...newState, rngState: rng.getState() };
+}
+
 /**
  * Add a player to the game
  */
@@ -121,64 +190,139 @@ export function removePlayer(state: GameState, playerId: string): GameState {
 }
 
 /**
- * Initialize dice for all players based on game mode
+ * Update session settings, unassigning players from slots that no longer exist
  */
-export function initializePlayerDice(state: GameState): GameState {
-  const updatedPlayers = state.players.map(player => ({
-    ...player,
-    dice: state.settings.mode === 'classic' 
-      ? createClassicDice(5)
-      : createStartingDice()
-  }));
+export function updateGameSettings(state: GameState, settings: Partial<GameSettings>): GameState {
+  const newSettings = { ...state.settings, ...settings };
+  return {
+    ...state,
+    settings: newSettings,
+    players: state.players.map(p =>
+      p.slot !== null && p.slot >= newSettings.maxPlayers ? { ...p, slot: null } : p
+    )
+  };
+}
+
+/**
+ * Make a player the host (the only one); bots cannot host
+ */
+export function setHost(state: GameState, playerId: string): GameState {
+  const player = state.players.find(p => p.id === playerId);
+  if (!player) {
+    throw new Error('Player not found');
+  }
+  if (player.botStrategyId !== null) {
+    throw new Error('Bots cannot be the host');
+  }
+
+  return {
+    ...state,
+    players: state.players.map(p => ({ ...p, isHost: p.id === playerId }))
+  };
+}
+
+/**
+ * Move a player into a lobby slot (or out of it with null)
+ */
+export function selectSlot(state: GameState, playerId: string, slot: number | null): GameState {
+  if (state.phase !== 'lobby') {
+    throw new Error('Cannot change slots during game');
+  }
+  if (slot !== null && (slot < 0 || slot >= state.settings.maxPlayers)) {
+    throw new Error('Invalid slot number');
+  }
+  if (slot !== null && state.players.some(p => p.slot === slot && p.id !== playerId)) {
+    throw new Error('Slot is already taken');
+  }
 
   return {
     ...state,
-    players: updatedPlayers
+    players: state.players.map(p => p.id === playerId ? { ...p, slot } : p)
+  };
+}
+
+/**
+ * Mark a player connected or disconnected.
+ * The game auto-pauses once every human has disconnected from an active game.
+ */
+export function setPlayerConnected(state: GameState, playerId: string, isConnected: boolean): GameState {
+  // A returning player takes their seat back from the skip or the bot
+  const newState = {
+    ...state,
+    players: state.players.map(p =>
+      p.id === playerId ? { ...p, isConnected, awayMode: isConnected ? null : p.awayMode } : p
+    )
   };
+
+  const allDisconnected = newState.players.every(p => !p.isConnected || p.botStrategyId !== null);
+  const isActiveGame = !['lobby', 'game_over', 'paused'].includes(newState.phase);
+  if (!isConnected && allDisconnected && isActiveGame) {
+    return {
+      ...newState,
+      pausedFromPhase: newState.phase,
+      phase: 'paused'
+    };
+  }
+
+  return newState;
+}
+
+/**
+ * Initialize dice for all players based on game mode
+ */
+export function initializePlayerDice(state: GameState): GameState {
+  return withRandom(state, (random, newId) => ({
+    ...state,
+    players: state.players.map(player => ({
+      ...player,
+      dice: state.settings.mode === 'classic' 
+        ? createClassicDice(5, random, newId)
+        : createStartingDice(random, newId)
+    }))
+  }));
 }
 
 /**
  * Start the game
+ * The seed is recorded in the state so the whole game can be reproduced from it
  */
-export function startGame(state: GameState): GameState {
-  if (state.players.length < 2) {
-    throw new Error('Need at least 2 players to start');
+export function startGame(state: GameState, seed: string = generateSeed()): GameState {
+  if (state.players.length < MIN_PLAYERS) {
+    throw new Error(`Need at least ${MIN_PLAYERS} players to start`);
   }
   if (state.phase !== 'lobby') {
     throw new Error('Game already started');
   }
 
-  let newState = initializePlayerDice(state);
-  
-  // Randomize starting player
-  const randomStartIndex = Math.floor(Math.random() * newState.players.length);
-  
-  newState = {
-    ...newState,
+  const seededState = initializePlayerDice({ ...state, seed, rngState: 0 });
+
+  return withRandom(seededState, (random, newId) => ({
+    ...seededState,
     phase: 'rolling',
     roundNumber: 1,
-    currentTurnIndex: randomStartIndex,
+    // Randomize starting player
+    currentTurnIndex: randomInt(random, seededState.players.length),
     currentBid: null,
-    previousBids: []
-  };
-
-  return newState;
+    previousBids: [],
+    roundModifier: null,
+    // Build the session deck for non-classic modes
+    deck: state.settings.mode !== 'classic' ? createDeck(state.settings.mode === 'chaos', random, newId) : [],
+    discardPile: []
+  }));
 }
 
 /**
  * Roll dice for all players (start of round)
  */
 export function rollDiceForRound(state: GameState): GameState {
-  const updatedPlayers = state.players.map(player => ({
-    ...player,
-    dice: rollAllDice(player.dice)
-  }));
-
-  return {
+  return withRandom(state, random => ({
     ...state,
-    players: updatedPlayers,
+    players: state.players.map(player => ({
+      ...player,
+      dice: rollAllDice(player.dice, random)
+    })),
     phase: 'bidding'
-  };
+  }));
 }
 
 /**
@@ -188,13 +332,64 @@ export function getActivePlayers(state: GameState): Player[] {
   return state.players.filter(p => !p.isEliminated && p.dice.length > 0);
 }
 
+/**
+ * The first of the active players from `index` on (wrapping around) who takes turns; a seat
+ * skipped while its player is away does not. `index` itself if nobody does.
+ */
+function findTurnIndex(activePlayers: Player[], index: number): number {
+  for (let step = 0; step < activePlayers.length; step++) {
+    const candidate = (index + step) % activePlayers.length;
+    if (activePlayers[candidate].awayMode !== 'skip') return candidate;
+  }
+  return index % activePlayers.length;
+}
+
 /**
  * Get current player
  */
 export function getCurrentPlayer(state: GameState): Player | null {
   const activePlayers = getActivePlayers(state);
   if (activePlayers.length === 0) return null;
-  return activePlayers[state.currentTurnIndex % activePlayers.length];
+  return activePlayers[findTurnIndex(activePlayers, state.currentTurnIndex)];
+}
+
+/**
+ * A disconnected player's grace period is over: their seat is skipped or played by a bot
+ * until they come back
+ */
+export function setPlayerAway(state: GameState, playerId: string, awayMode: DisconnectAction): GameState {
+  const player = state.players.find(p => p.id === playerId);
+  if (!player || player.isConnected) {
+    throw new Error('Player is not disconnected');
+  }
+
+  const newState = {
+    ...state,
+    players: state.players.map(p => p.id === playerId ? { ...p, awayMode } : p)
+  };
+
+  // Move the turn on if it was theirs
+  const activePlayers = getActivePlayers(newState);
+  if (activePlayers.length === 0) return newState;
+  return {
+    ...newState,
+    currentTurnIndex: findTurnIndex(activePlayers, state.currentTurnIndex)
+  };
+}
+
+/**
+ * Check whether 1s count as wild this round (they don't during Last Stand)
+ */
+export function areOnesWild(state: GameState): boolean {
+  return state.roundModifier?.type !== 'last_stand';
+}
+
+/**
+ * Check whether a player may change the bid face value during a Last Stand round
+ */
+export function canChangeLockedFace(state: GameState, playerId: string): boolean {
+  const player = state.players.find(p => p.id === playerId);
+  return player?.dice.length === 1;
 }
 
 /**
@@ -210,17 +405,33 @@ export function isValidBid(state: GameState, bid: Bid, isPhantomBid: boolean = f
   // If no current bid, any valid bid is allowed
   if (!state.currentBid) return true;
 
+  // Last Stand: the face is locked unless the bidder is down to one die
+  const modifier = state.roundModifier;
+  if (modifier?.type === 'last_stand' && modifier.lockedFaceValue !== null) {
+    if (bid.faceValue !== modifier.lockedFaceValue && !canChangeLockedFace(state, bid.playerId)) {
+      return false;
+    }
+  }
+
   // Phantom bid ignores increment rules
   if (isPhantomBid) return true;
 
-  const current = state.currentBid;
+  return isBidRaise(state.currentBid, bid, areOnesWild(state));
+}
 
+/**
+ * Check whether a bid outranks the current one under the increment rules
+ */
+export function isBidRaise(current: Bid, bid: Bid, onesWild: boolean): boolean {
   // Higher quantity is always valid
   if (bid.quantity > current.quantity) return true;
 
   // Same quantity requires higher face value
   if (bid.quantity === current.quantity && bid.faceValue > current.faceValue) return true;
 
+  // 1s are plain faces during Last Stand, so the conversion rules below don't apply
+  if (!onesWild) return false;
+
   // Special rule: switching to/from 1s
   // Going to 1s: quantity must be at least half (rounded up)
   if (bid.faceValue === 1 && current.faceValue !== 1) {
@@ -237,6 +448,48 @@ export function isValidBid(state: GameState, bid: Bid, isPhantomBid: boolean = f
   return false;
 }
 
+/**
+ * Smallest quantity of a face that would be a valid raise over the current bid
+ */
+export function getMinimumBidQuantity(current: Bid | null, faceValue: number, onesWild: boolean): number {
+  if (!current) return 1;
+  let quantity = 1;
+  while (!isBidRaise(current, { playerId: current.playerId, quantity, faceValue }, onesWild)) {
+    quantity++;
+  }
+  return quantity;
+}
+
+/**
+ * The smallest legal raise for a player (what a timed-out bidder bids): the lowest quantity,
+ * staying on the same side of the 1s conversion where possible, then the lowest face
+ */
+export function getMinimumRaise(state: GameState, playerId: string): Bid {
+  const onesWild = areOnesWild(state);
+  const current = state.currentBid;
+  const lockedFace = state.roundModifier?.type === 'last_stand' ? state.roundModifier.lockedFaceValue : null;
+  const faces = [2, 3, 4, 5, 6, 1].filter(
+    face => lockedFace === null || face === lockedFace || canChangeLockedFace(state, playerId)
+  );
+
+  if (!current) {
+    return { playerId, quantity: 1, faceValue: faces[0] };
+  }
+
+  const isSameKind = (faceValue: number) => !onesWild || (faceValue === 1) === (current.faceValue === 1);
+  const candidates: Bid[] = faces.map(faceValue => ({
+    playerId,
+    quantity: getMinimumBidQuantity(current, faceValue, onesWild),
+    faceValue
+  }));
+  candidates.sort((a, b) =>
+    Number(isSameKind(b.faceValue)) - Number(isSameKind(a.faceValue)) ||
+    a.quantity - b.quantity ||
+    a.faceValue - b.faceValue
+  );
+  return candidates[0];
+}
+
 /**
  * Make a bid
  */
@@ -256,7 +509,7 @@ export function makeBid(state: GameState, playerId: string, quantity: number, fa
   }
 
   const activePlayers = getActivePlayers(state);
-  const nextTurnIndex = (state.currentTurnIndex + 1) % activePlayers.length;
+  const nextTurnIndex = findTurnIndex(activePlayers, findTurnIndex(activePlayers, state.currentTurnIndex) + 1);
 
   // Clear phantom bid effect after use
   let updatedState = state;
@@ -264,18 +517,31 @@ export function makeBid(state: GameState, playerId: string, quantity: number, fa
     updatedState = setActiveEffect(state, playerId, 'phantomBid', false);
   }
 
+  // Last Stand: the opening bid locks the face (a one-die player may move the lock)
+  let roundModifier = state.roundModifier;
+  if (roundModifier?.type === 'last_stand' && roundModifier.lockedFaceValue !== faceValue) {
+    roundModifier = { ...roundModifier, lockedFaceValue: faceValue };
+  }
+
   return {
     ...updatedState,
     currentBid: bid,
     previousBids: state.currentBid ? [...state.previousBids, state.currentBid] : [],
-    currentTurnIndex: nextTurnIndex
+    currentTurnIndex: nextTurnIndex,
+    roundModifier
   };
 }
 
 /**
  * Call Dudo (challenge the current bid)
+ * With Late Dudo active, targetBidIndex selects an earlier bid from previousBids instead;
+ * the original bidder of that bid is the one at risk.
  */
-export function callDudo(state: GameState, callerId: string): { newState: GameState; result: DudoResult } {
+export function callDudo(
+  state: GameState,
+  callerId: string,
+  targetBidIndex: number | null = null
+): { newState: GameState; result: DudoResult } {
   if (!state.currentBid) {
     throw new Error('No bid to challenge');
   }
@@ -285,7 +551,16 @@ export function callDudo(state: GameState, callerId: string): { newState: GameSt
     throw new Error('Not your turn');
   }
 
-  const bid = state.currentBid;
+  let bid = state.currentBid;
+  if (targetBidIndex !== null) {
+    if (!currentPlayer.activeEffects.lateDudo) {
+      throw new Error('Late Dudo is not active');
+    }
+    if (!Number.isInteger(targetBidIndex) || targetBidIndex < 0 || targetBidIndex >= state.previousBids.length) {
+      throw new Error('Invalid bid to challenge');
+    }
+    bid = state.previousBids[targetBidIndex];
+  }
   const bidder = state.players.find(p => p.id === bid.playerId);
   if (!bidder) {
     throw new Error('Bidder not found');
@@ -293,7 +568,7 @@ export function callDudo(state: GameState, callerId: string): { newState: GameSt
 
   // Count all dice
   const allDice = getActivePlayers(state).map(p => p.dice);
-  const actualCount = countTotalDiceFace(allDice, bid.faceValue, bid.faceValue !== 1);
+  const actualCount = countTotalDiceFace(allDice, bid.faceValue, bid.faceValue !== 1 && areOnesWild(state));
 
   // Dudo is successful if actual count is LESS than bid quantity
   const dudoSuccess = actualCount < bid.quantity;
@@ -312,7 +587,8 @@ export function callDudo(state: GameState, callerId: string): { newState: GameSt
     actualCount,
     success: dudoSuccess,
     loserId,
-    revealedDice
+    revealedDice,
+    targetBidIndex
   };
 
   const newState: GameState = {
@@ -343,7 +619,7 @@ export function callJonti(state: GameState, callerId: string): { newState: GameS
 
   // Count all dice
   const allDice = getActivePlayers(state).map(p => p.dice);
-  const actualCount = countTotalDiceFace(allDice, bid.faceValue, bid.faceValue !== 1);
+  const actualCount = countTotalDiceFace(allDice, bid.faceValue, bid.faceValue !== 1 && areOnesWild(state));
 
   // Jonti is successful if actual count EXACTLY equals bid quantity
   const jontiSuccess = actualCount === bid.quantity;
@@ -370,6 +646,36 @@ export function callJonti(state: GameState, callerId: string): { newState: GameS
   return { newState, result };
 }
 
+/**
+ * Call Dudo and settle it, consuming the caller's Insurance, Double Dudo and Late Dudo effects
+ */
+export function resolveDudo(
+  state: GameState,
+  callerId: string,
+  targetBidIndex: number | null = null
+): { newState: GameState; result: DudoResult; cardDrawn: Card | null; insuranceUsed: boolean; doubleDudo: boolean } {
+  const { newState: calledState, result } = callDudo(state, callerId, targetBidIndex);
+
+  const caller = calledState.players.find(p => p.id === callerId);
+  const insuranceUsed = caller?.activeEffects?.insurance || false;
+  const doubleDudo = caller?.activeEffects?.doubleDudo || false;
+
+  let { newState, cardDrawn } = applyDudoResult(calledState, result, insuranceUsed, doubleDudo);
+
+  // Clear the used effects
+  if (insuranceUsed) {
+    newState = setActiveEffect(newState, callerId, 'insurance', false);
+  }
+  if (doubleDudo) {
+    newState = setActiveEffect(newState, callerId, 'doubleDudo', false);
+  }
+  if (targetBidIndex !== null) {
+    newState = setActiveEffect(newState, callerId, 'lateDudo', false);
+  }
+
+  return { newState, result, cardDrawn, insuranceUsed, doubleDudo };
+}
+
 /**
  * Apply Jonti result (add or remove die from caller)
  */
@@ -377,12 +683,13 @@ export function applyJontiResult(
   state: GameState, 
   result: JontiResult
 ): { newState: GameState } {
+  const rng = getGameRandom(state);
   const updatedPlayers = state.players.map(player => {
     if (player.id === result.callerId) {
       if (result.success) {
         // Caller gains a die (add a d6)
         const newDie: Die = {
-          id: uuidv4(),
+          id: rng.id(),
           type: 'd6',
           faceValue: 1 // Will be rolled at start of next round
         };
@@ -411,7 +718,117 @@ export function applyJontiResult(
     ...state,
     players: updatedPlayers,
     phase: winnerId ? 'game_over' : 'round_end',
-    winnerId
+    winnerId,
+    rngState: rng.getState()
+  };
+
+  return { newState };
+}
+
+
+/**
+ * Call Calza (claim the current bid is exactly correct)
+ * Unlike Jonti, any active player except the bidder may call it, not only the current player.
+ * If correct: caller regains a die (up to the starting maximum)
+ * If incorrect: caller loses a die
+ */
+export function callCalza(state: GameState, callerId: string): { newState: GameState; result: CalzaResult } {
+  if (!state.settings.enableCalza) {
+    throw new Error('Calza is not enabled in this game');
+  }
+  if (state.phase !== 'bidding') {
+    throw new Error('Calza can only be called during bidding');
+  }
+  if (!state.currentBid) {
+    throw new Error('No bid to call Calza on');
+  }
+
+  const caller = getActivePlayers(state).find(p => p.id === callerId);
+  if (!caller) {
+    throw new Error('Only active players can call Calza');
+  }
+
+  const bid = state.currentBid;
+  if (bid.playerId === callerId) {
+    throw new Error('Cannot call Calza on your own bid');
+  }
+
+  // Count all dice
+  const allDice = getActivePlayers(state).map(p => p.dice);
+  const actualCount = countTotalDiceFace(allDice, bid.faceValue, bid.faceValue !== 1 && areOnesWild(state));
+
+  // Calza is successful if actual count EXACTLY equals bid quantity
+  const calzaSuccess = actualCount === bid.quantity;
+
+  // Reveal all dice
+  const revealedDice = getActivePlayers(state).map(p => ({
+    playerId: p.id,
+    dice: p.dice
+  }));
+
+  const result: CalzaResult = {
+    callerId,
+    bid,
+    actualCount,
+    success: calzaSuccess,
+    revealedDice
+  };
+
+  const newState: GameState = {
+    ...state,
+    phase: 'dudo_called' // Reuse dudo_called phase for revealing dice
+  };
+
+  return { newState, result };
+}
+
+/**
+ * Apply Calza result (add or remove die from caller)
+ */
+export function applyCalzaResult(
+  state: GameState,
+  result: CalzaResult
+): { newState: GameState } {
+  const rng = getGameRandom(state);
+  const updatedPlayers = state.players.map(player => {
+    if (player.id === result.callerId) {
+      if (result.success) {
+        if (player.dice.length >= MAX_DICE_PER_PLAYER) {
+          return player;
+        }
+        // Caller regains a die (add a d6)
+        const newDie: Die = {
+          id: rng.id(),
+          type: 'd6',
+          faceValue: 1 // Will be rolled at start of next round
+        };
+        return {
+          ...player,
+          dice: [...player.dice, newDie]
+        };
+      } else {
+        // Caller loses a die
+        const newDice = player.dice.slice(1);
+        return {
+          ...player,
+          dice: newDice,
+          isEliminated: newDice.length === 0
+        };
+      }
+    }
+    return player;
+  });
+
+  // Check for winner
+  const activePlayers = updatedPlayers.filter(p => !p.isEliminated);
+  const winnerId = activePlayers.length === 1 ? activePlayers[0].id : null;
+
+  const newState: GameState = {
+    ...state,
+    players: updatedPlayers,
+    phase: winnerId ? 'game_over' : 'round_end',
+    winnerId,
+    rngState: rng.getState()
   };
 
   return { newState };
@@ -426,8 +843,10 @@ export function applyDudoResult(
   result: DudoResult,
   insuranceUsed: boolean = false,
   doubleDudo: boolean = false
-): { newState: GameState; cardDrawn: Card | null; deck: Card[] } {
-  let deck = state.settings.mode !== 'classic' ? createDeck(state.settings.mode === 'chaos') : [];
+): { newState: GameState; cardDrawn: Card | null } {
+  const rng = getGameRandom(state);
+  let deck = state.deck;
+  let discardPile = state.discardPile;
   let cardDrawn: Card | null = null;
 
   // Determine dice to lose
@@ -442,10 +861,11 @@ export function applyDudoResult(
       
       // Draw card if losing a die and hand not full
       if (state.settings.mode !== 'classic' && player.cards.length < MAX_HAND_SIZE) {
-        const drawResult = drawCard(deck);
+        const drawResult = drawCardWithReshuffle(deck, discardPile, rng.random);
         if (drawResult.card) {
           cardDrawn = drawResult.card;
           deck = drawResult.remainingDeck;
+          discardPile = drawResult.discardPile;
           return {
             ...player,
             dice: newDice,
@@ -472,10 +892,88 @@ export function applyDudoResult(
     ...state,
     players: updatedPlayers,
     phase: winnerId ? 'game_over' : 'round_end',
-    winnerId
+    winnerId,
+    deck,
+    discardPile,
+    rngState: rng.getState()
   };
 
-  return { newState, cardDrawn, deck };
+  return { newState, cardDrawn };
+}
+
+/**
+ * A bidder who ran out of time forfeits a die, which ends the round (no card is drawn for it)
+ */
+export function forfeitDie(state: GameState, playerId: string): GameState {
+  if (state.phase !== 'bidding') {
+    throw new Error('Can only forfeit during bidding');
+  }
+  const currentPlayer = getCurrentPlayer(state);
+  if (!currentPlayer || currentPlayer.id !== playerId) {
+    throw new Error('Not your turn');
+  }
+
+  const updatedPlayers = state.players.map(player => {
+    if (player.id !== playerId) return player;
+    const newDice = player.dice.slice(1);
+    return {
+      ...player,
+      dice: newDice,
+      isEliminated: newDice.length === 0
+    };
+  });
+
+  // Check for winner
+  const activePlayers = updatedPlayers.filter(p => !p.isEliminated);
+  const winnerId = activePlayers.length === 1 ? activePlayers[0].id : null;
+
+  return {
+    ...state,
+    players: updatedPlayers,
+    phase: winnerId ? 'game_over' : 'round_end',
+    winnerId,
+    forfeitedPlayerId: playerId
+  };
+}
+
+/**
+ * Knock a player out of a game in progress (their time bank ran out). Their dice leave the
+ * table at once; the turn passes on if it was theirs.
+ */
+export function eliminatePlayer(state: GameState, playerId: string): GameState {
+  if (state.phase === 'lobby' || state.phase === 'game_over') {
+    throw new Error('No game in progress');
+  }
+  const player = state.players.find(p => p.id === playerId);
+  if (!player || player.isEliminated) {
+    throw new Error('Player is not in the game');
+  }
+
+  const activeBefore = getActivePlayers(state);
+  const currentPlayerId = getCurrentPlayer(state)?.id;
+  const updatedPlayers = state.players.map(p =>
+    p.id === playerId ? { ...p, dice: [], isEliminated: true } : p
+  );
+  const activePlayers = updatedPlayers.filter(p => !p.isEliminated && p.dice.length > 0);
+
+  // Keep the turn with the same player, or hand it to whoever sat after the eliminated one
+  let currentTurnIndex = 0;
+  if (activePlayers.length > 0) {
+    currentTurnIndex = currentPlayerId === playerId
+      ? findTurnIndex(activePlayers, activeBefore.findIndex(p => p.id === playerId))
+      : Math.max(0, activePlayers.findIndex(p => p.id === currentPlayerId));
+  }
+
+  // Check for winner
+  const winnerId = activePlayers.length === 1 ? activePlayers[0].id : null;
+
+  return {
+    ...state,
+    players: updatedPlayers,
+    currentTurnIndex,
+    phase: winnerId ? 'game_over' : state.phase,
+    winnerId
+  };
 }
 
 /**
@@ -486,20 +984,43 @@ export function startNewRound(state: GameState): GameState {
     throw new Error('Cannot start new round');
   }
 
-  // Find the player who lost the last round to start
+  // Find the player who lost the last round to start (a Dudo loser, or whoever forfeited on time)
+  const roundLoserId = state.lastDudoResult?.loserId ?? state.forfeitedPlayerId;
   const loserIndex = state.players.findIndex(
-    p => p.id === state.lastDudoResult?.loserId && !p.isEliminated
+    p => p.id === roundLoserId && !p.isEliminated
   );
   
   const activePlayers = getActivePlayers(state);
   let startIndex = 0;
   if (loserIndex >= 0) {
-    startIndex = activePlayers.findIndex(p => p.id === state.lastDudoResult?.loserId);
+    startIndex = activePlayers.findIndex(p => p.id === roundLoserId);
     if (startIndex < 0) startIndex = 0;
   }
+  if (activePlayers.length > 0) {
+    startIndex = findTurnIndex(activePlayers, startIndex);
+  }
 
   // Clear all active effects at the start of a new round
-  const clearedState = clearAllActiveEffects(state);
+  let clearedState = clearAllActiveEffects(state);
+
+  // Last Stand: triggered the first time a player drops to one die
+  let roundModifier: RoundModifier | null = null;
+  if (state.settings.enableLastStand) {
+    const lastStandPlayer = activePlayers.find(p => p.dice.length === 1 && !p.hasHadLastStand);
+    if (lastStandPlayer) {
+      roundModifier = {
+        type: 'last_stand',
+        triggeredBy: lastStandPlayer.id,
+        lockedFaceValue: null
+      };
+      clearedState = {
+        ...clearedState,
+        players: clearedState.players.map(p =>
+          p.id === lastStandPlayer.id ? { ...p, hasHadLastStand: true } : p
+        )
+      };
+    }
+  }
 
   return {
     ...clearedState,
@@ -509,25 +1030,37 @@ export function startNewRound(state: GameState): GameState {
     currentBid: null,
     previousBids: [],
     lastDudoResult: null,
-    pausedFromPhase: null
+    pausedFromPhase: null,
+    roundModifier,
+    forfeitedPlayerId: null
   };
 }
 
 /**
  * Convert game state to public state (hide private info)
  */
-export function toPublicGameState(state: GameState): PublicGameState {
+export function toPublicGameState(
+  state: GameState,
+  turnTimer: TurnTimer | null = null,
+  timeBanks: Record<string, PlayerTimeBank> = {},
+  network: Record<string, PlayerNetworkInfo> = {}
+): PublicGameState {
+  // IPs are never copied from the state: the session decides who may see them
   const publicPlayers: PublicPlayerInfo[] = state.players.map(player => ({
     id: player.id,
     name: player.name,
-    ip: player.ip,
+    ip: network[player.id]?.ip ?? null,
+    fingerprint: network[player.id]?.fingerprint ?? '',
     slot: player.slot,
     diceCount: player.dice.length,
     cardCount: player.cards.length,
     isConnected: player.isConnected,
     isHost: player.isHost,
     isEliminated: player.isEliminated,
-    activeEffects: player.activeEffects
+    activeEffects: player.activeEffects,
+    botStrategyId: player.botStrategyId,
+    awayMode: player.awayMode,
+    timeBank: timeBanks[player.id] ?? null
   }));
 
   return {
@@ -541,25 +1074,129 @@ export function toPublicGameState(state: GameState): PublicGameState {
     roundNumber: state.roundNumber,
     winnerId: state.winnerId,
     lastDudoResult: state.lastDudoResult,
-    pausedFromPhase: state.pausedFromPhase
+    pausedFromPhase: state.pausedFromPhase,
+    roundModifier: state.roundModifier,
+    deckCount: state.deck.length,
+    discardCount: state.discardPile.length,
+    turnTimer
   };
 }
 
+/**
+ * Strip the private parts of a logged event that a player is not allowed to see
+ */
+export function toPlayerGameEvent(event: GameEvent, playerId: string): GameEvent {
+  if (!('privateDetails' in event)) return event;
+  switch (event.type) {
+    case 'game_started':
+      return { ...event, privateDetails: getVisibleDetails(event.privateDetails, playerId) };
+    case 'round_started':
+      return { ...event, privateDetails: getVisibleDetails(event.privateDetails, playerId) };
+    case 'card_played':
+      return { ...event, privateDetails: getVisibleDetails(event.privateDetails, playerId) };
+    case 'card_drawn':
+      return { ...event, privateDetails: getVisibleDetails(event.privateDetails, playerId) };
+  }
+}
+
+function getVisibleDetails<T>(details: PrivateEventDetail<T>[], playerId: string): PrivateEventDetail<T>[] {
+  return details.filter(detail => detail.visibleTo.includes(playerId));
+}
+
+/**
+ * Get the card timing windows currently open for a player.
+ * On your own turn you may also react to the standing bid, and 'on_dudo' cards
+ * are played just before calling Dudo, so they open once there is a bid to challenge.
+ */
+export function getCardTimingWindows(state: GameState, playerId: string): CardTiming[] {
+  const player = getActivePlayers(state).find(p => p.id === playerId);
+  if (!player) return [];
+
+  if (state.phase === 'bidding') {
+    const isMyTurn = getCurrentPlayer(state)?.id === playerId;
+    if (!isMyTurn) {
+      return ['reaction'];
+    }
+    return state.currentBid ? ['on_turn', 'reaction', 'on_dudo'] : ['on_turn'];
+  }
+
+  if (state.phase === 'dudo_called') {
+    return ['on_dudo'];
+  }
+
+  return [];
+}
+
+/**
+ * Get the cards a player is allowed to play right now
+ */
+export function getPlayableCardsForPlayer(state: GameState, playerId: string): Card[] {
+  const player = state.players.find(p => p.id === playerId);
+  if (!player) return [];
+
+  const windows = getCardTimingWindows(state, playerId);
+  return player.cards.filter(card => windows.some(timing => canPlayCard(card, timing)));
+}
+
 /**
  * Apply card effect: Re-roll one die
  */
 export function applyRerollOne(state: GameState, playerId: string, dieId: string): GameState {
-  const updatedPlayers = state.players.map(player => {
-    if (player.id === playerId) {
-      const updatedDice = player.dice.map(die => 
-        die.id === dieId ? rerollDie(die) : die
-      );
-      return { ...player, dice: updatedDice };
-    }
-    return player;
-  });
+  return withRandom(state, random => ({
+    ...state,
+    players: state.players.map(player => {
+      if (player.id === playerId) {
+        const updatedDice = player.dice.map(die => 
+          die.id === dieId ? rerollDie(die, random) : die
+        );
+        return { ...player, dice: updatedDice };
+      }
+      return player;
+    })
+  }));
+}
 
-  return { ...state, players: updatedPlayers };
+/**
+ * Apply card effect: Blind Swap (swap one of your dice with a random die of another player)
+ */
+export function applyBlindSwap(state: GameState, playerId: string, myDieId: string, targetPlayerId: string): GameState {
+  const targetPlayer = state.players.find(p => p.id === targetPlayerId);
+  if (!targetPlayer || targetPlayer.dice.length === 0) {
+    throw new Error('Target player has no dice');
+  }
+  
+  const player = state.players.find(p => p.id === playerId);
+  if (!player) {
+    throw new Error('Player not found');
+  }
+  
+  const myDie = player.dice.find(d => d.id === myDieId);
+  if (!myDie) {
+    throw new Error('Die not found');
+  }
+
+  return withRandom(state, random => {
+    const randomIndex = randomInt(random, targetPlayer.dice.length);
+    const targetDie = targetPlayer.dice[randomIndex];
+
+    const updatedPlayers = state.players.map(p => {
+      if (p.id === playerId) {
+        return {
+          ...p,
+          dice: p.dice.map(d => d.id === myDieId ? { ...targetDie, id: d.id } : d)
+        };
+      }
+      if (p.id === targetPlayerId) {
+        return {
+          ...p,
+          dice: p.dice.map((d, i) => i === randomIndex ? { ...myDie, id: d.id } : d)
+        };
+      }
+      return p;
+    });
+
+    return { ...state, players: updatedPlayers };
+  });
 }
 
 /**
@@ -631,6 +1268,9 @@ export function applyWildShift(state: GameState, newFaceValue: number): GameStat
   if (newFaceValue < 1 || newFaceValue > 6) {
     throw new Error('Invalid face value');
   }
+  if (state.roundModifier?.type === 'last_stand') {
+    throw new Error('The bid face is locked during a Last Stand round');
+  }
 
   return {
     ...state,
@@ -696,9 +1336,10 @@ export function clearAllActiveEffects(state: GameState): GameState {
 }
 
 /**
- * Remove a card from player's hand
+ * Remove a card from player's hand and put it on the discard pile
  */
 export function removeCardFromHand(state: GameState, playerId: string, cardId: string): GameState {
+  const card = state.players.find(p => p.id === playerId)?.cards.find(c => c.id === cardId);
   const updatedPlayers = state.players.map(player => {
     if (player.id === playerId) {
       return {
@@ -709,7 +1350,125 @@ export function removeCardFromHand(state: GameState, playerId: string, cardId: s
     return player;
   });
 
-  return { ...state, players: updatedPlayers };
+  return {
+    ...state,
+    players: updatedPlayers,
+    discardPile: card ? [...state.discardPile, card] : state.discardPile
+  };
+}
+
+/**
+ * Find the die a card targets, by id or by position in the target's hand
+ */
+export function findTargetDie(
+  state: GameState,
+  targetPlayerId: string | undefined,
+  targetDieId?: string,
+  dieIndex?: number
+): Die | undefined {
+  const targetPlayer = state.players.find(p => p.id === targetPlayerId);
+  if (!targetPlayer) return undefined;
+  return targetPlayer.dice.find(d => d.id === targetDieId) ??
+    (dieIndex !== undefined ? targetPlayer.dice[dieIndex] : undefined);
+}
+
+/**
+ * Play a card: validate timing and targets, apply its effect and discard it.
+ * Information cards (peek, gauge, false tell) leave the state unchanged apart from the discard.
+ */
+export function playCard(state: GameState, playerId: string, payload: PlayCardPayload): GameState {
+  const player = state.players.find(p => p.id === playerId);
+  if (!player) {
+    throw new Error('Player not found');
+  }
+
+  const card = player.cards.find(c => c.id === payload.cardId);
+  if (!card) {
+    throw new Error('Card not found');
+  }
+
+  if (!getPlayableCardsForPlayer(state, playerId).some(c => c.id === card.id)) {
+    throw new Error(`${card.name} cannot be played right now`);
+  }
+
+  // Validate required parameters before applying card effects
+  switch (card.type) {
+    case 'reroll_one':
+      if (!payload.targetDieId) throw new Error('Must specify die to reroll');
+      break;
+    case 'polish':
+      if (!payload.targetDieId) throw new Error('Must specify die to polish');
+      break;
+    case 'crack':
+      if (!payload.targetPlayerId || (!payload.targetDieId && payload.additionalData?.dieIndex === undefined)) {
+        throw new Error('Must specify target player and die');
+      }
+      break;
+    case 'peek':
+      if (!payload.targetPlayerId || (!payload.targetDieId && payload.additionalData?.dieIndex === undefined)) {
+        throw new Error('Must specify target player and die to peek');
+      }
+      if (!findTargetDie(state, payload.targetPlayerId, payload.targetDieId, payload.additionalData?.dieIndex)) {
+        throw new Error('Could not find target die');
+      }
+      break;
+    case 'gauge':
+      if (!payload.additionalData?.dieIds || payload.additionalData.dieIds.length !== 2) {
+        throw new Error('Must specify exactly 2 dice to gauge');
+      }
+      break;
+    case 'wild_shift':
+      if (!payload.additionalData?.faceValue) throw new Error('Must specify new face value');
+      break;
+    case 'inflation':
+      if (!state.currentBid) throw new Error('No current bid to inflate');
+      break;
+    case 'blind_swap':
+      if (!payload.targetPlayerId || !payload.targetDieId) {
+        throw new Error('Must specify your die and target player');
+      }
+      break;
+  }
+
+  let newState = state;
+  switch (card.type) {
+    case 'reroll_one':
+      newState = applyRerollOne(state, playerId, payload.targetDieId!);
+      break;
+    case 'polish':
+      newState = applyPolish(state, playerId, payload.targetDieId!);
+      break;
+    case 'crack':
+      {
+        const targetDie = findTargetDie(state, payload.targetPlayerId, payload.targetDieId, payload.additionalData?.dieIndex);
+        if (!targetDie) throw new Error('Could not resolve target die');
+        newState = applyCrack(state, payload.targetPlayerId!, targetDie.id);
+      }
+      break;
+    case 'inflation':
+      newState = applyInflation(state);
+      break;
+    case 'wild_shift':
+      newState = applyWildShift(state, payload.additionalData!.faceValue!);
+      break;
+    case 'blind_swap':
+      newState = applyBlindSwap(state, playerId, payload.targetDieId!, payload.targetPlayerId!);
+      break;
+    case 'insurance':
+      newState = setActiveEffect(state, playerId, 'insurance', true);
+      break;
+    case 'double_dudo':
+      newState = setActiveEffect(state, playerId, 'doubleDudo', true);
+      break;
+    case 'late_dudo':
+      newState = setActiveEffect(state, playerId, 'lateDudo', true);
+      break;
+    case 'phantom_bid':
+      newState = setActiveEffect(state, playerId, 'phantomBid', true);
+      break;
+  }
+
+  return removeCardFromHand(newState, playerId, card.id);
 }
 
 /**
@@ -722,7 +1481,9 @@ export function resetGame(state: GameState): GameState {
     dice: [],
     cards: [],
     isEliminated: false,
-    activeEffects: createDefaultActiveEffects()
+    hasHadLastStand: false,
+    activeEffects: createDefaultActiveEffects(),
+    awayMode: null
   }));
 
   return {
@@ -735,7 +1496,12 @@ export function resetGame(state: GameState): GameState {
     roundNumber: 0,
     winnerId: null,
     lastDudoResult: null,
-    pausedFromPhase: null
+    pausedFromPhase: null,
+    roundModifier: null,
+    forfeitedPlayerId: null,
+    deck: [],
+    discardPile: [],
+    seed: null
   };
 }
 
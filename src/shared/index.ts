@@ -3,6 +3,11 @@
 // ============================================
 
 export * from './types';
+export * from './random';
 export * from './dice';
 export * from './cards';
 export * from './gameState';
+export * from './fairness';
+export * from './replay';
+export * from './probability';
+export * from './bots';
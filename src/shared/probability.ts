@@ -0,0 +1,196 @@
+// ============================================
+// Perudo+ Bid Probability Engine
+// ============================================
+
+import { Die, DieType, GameMode } from './types';
+import { DICE_FACES, DICE_ORDER } from './dice';
+
+const FACE_VALUES = [1, 2, 3, 4, 5, 6];
+const STARTING_D6_COUNT = 3;   // Tactical and Chaos loadouts start with 3× d6...
+const STARTING_DRAWN_COUNT = 2; // ...followed by 2 dice drawn from the other sizes
+const DRAWN_DIE_TYPES = DICE_ORDER.filter(type => type !== 'd6');
+
+/**
+ * What is known about one of an opponent's dice (size from Gauge, size and face from Peek)
+ */
+export interface DieKnowledge {
+  type?: DieType;
+  faceValue?: number;
+}
+
+export interface OpponentDiceKnowledge {
+  diceCount: number;
+  knownDice?: DieKnowledge[]; // At most diceCount entries; the rest are unknown
+}
+
+export interface BidProbabilityInput {
+  myDice: Die[];
+  opponents: OpponentDiceKnowledge[];
+  onesWild?: boolean; // false during a Last Stand round (default true)
+  mode?: GameMode;    // Decides the opponents' loadouts (default tactical)
+}
+
+/**
+ * Distribution of how many dice count towards a face value (wild 1s included where they apply)
+ */
+export interface FaceCountDistribution {
+  faceValue: number;
+  exactly: number[]; // exactly[k] = P(count === k)
+  atLeast: number[]; // atLeast[k] = P(count >= k)
+  expected: number;
+}
+
+export interface BidProbabilityTable {
+  totalDice: number;
+  onesWild: boolean;
+  faces: FaceCountDistribution[]; // Indexed by faceValue - 1
+}
+
+/**
+ * The sizes each of a player's remaining dice can be, from the starting loadout of the mode.
+ * Tactical and Chaos start with 3× d6 followed by 2 dice drawn evenly from d3, d4, d8 and d10,
+ * and lost dice come off the front, so the drawn dice are the last to go. Assumes no die was
+ * regained or resized by a card, which nobody but the owner can see.
+ */
+export function getLoadoutDieTypes(mode: GameMode, diceCount: number): DieType[][] {
+  if (mode === 'classic') {
+    return Array.from({ length: diceCount }, () => ['d6']);
+  }
+  const firstSlot = STARTING_D6_COUNT + STARTING_DRAWN_COUNT - diceCount;
+  return Array.from({ length: diceCount }, (_, i) =>
+    firstSlot + i < STARTING_D6_COUNT ? ['d6'] : DRAWN_DIE_TYPES
+  );
+}
+
+/**
+ * Probability of each face (1-6) for a die of a known size
+ */
+function getFaceDistribution(dieType: DieType): number[] {
+  const faces = DICE_FACES[dieType];
+  return FACE_VALUES.map(value => faces.filter(f => f === value).length / faces.length);
+}
+
+/**
+ * Face distribution of a die that is equally likely to be any of the given sizes
+ */
+function getMixedFaceDistribution(dieTypes: DieType[]): number[] {
+  const mixed = FACE_VALUES.map(() => 0);
+  for (const type of dieTypes) {
+    getFaceDistribution(type).forEach((p, i) => {
+      mixed[i] += p / dieTypes.length;
+    });
+  }
+  return mixed;
+}
+
+/**
+ * Pair what is known about an opponent's dice with their loadout slots.
+ * A die of known size takes a slot of that size; a die known only by its face takes
+ * the first slot that can show it.
+ */
+function getOpponentDice(opponent: OpponentDiceKnowledge, mode: GameMode): { knownFaces: number[]; hiddenDice: number[][] } {
+  const slots = getLoadoutDieTypes(mode, opponent.diceCount);
+  const knownFaces: number[] = [];
+  const hiddenDice: number[][] = [];
+
+  for (const die of (opponent.knownDice ?? []).slice(0, opponent.diceCount)) {
+    let slotIndex = slots.findIndex(types =>
+      die.type ? types.includes(die.type) : types.some(type => DICE_FACES[type].includes(die.faceValue ?? 0))
+    );
+    if (slotIndex === -1) slotIndex = 0; // The loadout changed in a way we could not see
+    const [slotTypes] = slots.splice(slotIndex, 1);
+
+    if (die.faceValue !== undefined) {
+      knownFaces.push(die.faceValue);
+    } else {
+      hiddenDice.push(getMixedFaceDistribution(die.type ? [die.type] : slotTypes));
+    }
+  }
+
+  for (const types of slots) {
+    hiddenDice.push(getMixedFaceDistribution(types));
+  }
+  return { knownFaces, hiddenDice };
+}
+
+/**
+ * Distribution of the number of successes over independent dice (Poisson binomial), in O(n²)
+ */
+function getCountDistribution(successChances: number[]): number[] {
+  let distribution = [1];
+  for (const p of successChances) {
+    const next = new Array<number>(distribution.length + 1).fill(0);
+    for (let k = 0; k < distribution.length; k++) {
+      next[k] += distribution[k] * (1 - p);
+      next[k + 1] += distribution[k] * p;
+    }
+    distribution = next;
+  }
+  return distribution;
+}
+
+/**
+ * Exact distribution of the table-wide count for every face value, given my own dice,
+ * the opponents' loadouts and what I know about their dice.
+ */
+export function calculateBidProbabilities(input: BidProbabilityInput): BidProbabilityTable {
+  const onesWild = input.onesWild ?? true;
+  const mode = input.mode ?? 'tactical';
+
+  // Every opponent die that is not fully known, as a face distribution
+  const knownFaces: number[] = input.myDice.map(d => d.faceValue);
+  const hiddenDice: number[][] = [];
+  for (const opponent of input.opponents) {
+    const dice = getOpponentDice(opponent, mode);
+    knownFaces.push(...dice.knownFaces);
+    hiddenDice.push(...dice.hiddenDice);
+  }
+  const totalDice = knownFaces.length + hiddenDice.length;
+
+  const faces = FACE_VALUES.map(faceValue => {
+    const countsWild = onesWild && faceValue !== 1;
+    const isMatch = (value: number) => value === faceValue || (countsWild && value === 1);
+
+    const knownCount = knownFaces.filter(isMatch).length;
+    const hiddenDistribution = getCountDistribution(
+      hiddenDice.map(dist => dist[faceValue - 1] + (countsWild ? dist[0] : 0))
+    );
+
+    // Shift by the dice already known to match
+    const exactly = new Array<number>(totalDice + 1).fill(0);
+    hiddenDistribution.forEach((p, k) => {
+      exactly[knownCount + k] = p;
+    });
+
+    const atLeast = new Array<number>(totalDice + 1).fill(0);
+    let tail = 0;
+    for (let k = totalDice; k >= 0; k--) {
+      tail += exactly[k];
+      atLeast[k] = Math.min(1, tail);
+    }
+
+    const expected = exactly.reduce((sum, p, k) => sum + p * k, 0);
+    return { faceValue, exactly, atLeast, expected };
+  });
+
+  return { totalDice, onesWild, faces };
+}
+
+/**
+ * Chance a bid is true (at least `quantity` dice count towards the face)
+ */
+export function getBidSuccessProbability(table: BidProbabilityTable, quantity: number, faceValue: number): number {
+  const face = table.faces[faceValue - 1];
+  if (!face || quantity > table.totalDice) return 0;
+  if (quantity <= 0) return 1;
+  return face.atLeast[quantity];
+}
+
+/**
+ * Chance a bid is exactly right (what Jonti and Calza need)
+ */
+export function getExactBidProbability(table: BidProbabilityTable, quantity: number, faceValue: number): number {
+  const face = table.faces[faceValue - 1];
+  if (!face || quantity < 0 || quantity > table.totalDice) return 0;
+  return face.exactly[quantity];
+}
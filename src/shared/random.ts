@@ -0,0 +1,73 @@
+// ============================================
+// Perudo+ Random Number Generation
+// ============================================
+
+import { v4 as uuidv4 } from 'uuid';
+import { hmacSha256 } from './fairness';
+
+/**
+ * A source of uniformly distributed numbers in [0, 1), like Math.random
+ */
+export type RandomFn = () => number;
+
+/**
+ * A source of unique ids, like uuidv4
+ */
+export type IdFn = () => string;
+
+/**
+ * A seeded generator whose position can be saved and restored
+ */
+export interface SeededRandom {
+  random: RandomFn;
+  id: IdFn; // Ids derived from the seed separately, so they reveal nothing about the numbers
+  getState: () => number;
+}
+
+const WORDS_PER_BLOCK = 8; // 32-bit outputs per HMAC-SHA256 block
+
+/**
+ * Create a generator keyed by a secret seed, starting from a saved position.
+ * Output block n is HMAC-SHA256(seed, n), so the same seed and position always produce
+ * the same sequence, while seeing any outputs reveals neither the seed nor other outputs.
+ */
+export function createSeededRandom(seed: string, position: number = 0): SeededRandom {
+  let current = position;
+  let blockIndex = -1;
+  let block: DataView = new DataView(new ArrayBuffer(32));
+
+  return {
+    random: () => {
+      const index = Math.floor(current / WORDS_PER_BLOCK);
+      if (index !== blockIndex) {
+        block = new DataView(hmacSha256(seed, `random:${index}`).buffer);
+        blockIndex = index;
+      }
+      const word = block.getUint32((current % WORDS_PER_BLOCK) * 4);
+      current++;
+      return word / 4294967296;
+    },
+    id: () => {
+      const bytes = hmacSha256(seed, `id:${current}`).slice(0, 16);
+      current++;
+      return uuidv4({ random: bytes });
+    },
+    getState: () => current
+  };
+}
+
+/**
+ * Generate a fresh 256-bit secret seed (hex) for a new game
+ */
+export function generateSeed(): string {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Pick a random integer in [0, max)
+ */
+export function randomInt(random: RandomFn, max: number): number {
+  return Math.floor(random() * max);
+}
@@ -0,0 +1,150 @@
+// ============================================
+// Perudo+ Event-Sourced Replay
+// ============================================
+
+import { GameState, GameSettings, GameAction, MatchRecord } from './types';
+import {
+  createGameState,
+  createPlayer,
+  addPlayer,
+  removePlayer,
+  updateGameSettings,
+  selectSlot,
+  setPlayerConnected,
+  setPlayerAway,
+  setHost,
+  startGame,
+  rollDiceForRound,
+  makeBid,
+  resolveDudo,
+  callJonti,
+  applyJontiResult,
+  callCalza,
+  applyCalzaResult,
+  playCard,
+  forfeitDie,
+  eliminatePlayer,
+  startNewRound,
+  pauseGame,
+  resumeGame,
+  resetGame
+} from './gameState';
+
+/**
+ * Apply one recorded action, using the same reducers as the live session
+ */
+export function applyGameAction(state: GameState, action: GameAction): GameState {
+  switch (action.type) {
+    case 'update_settings':
+      return updateGameSettings(state, action.settings);
+    case 'add_player':
+      return addPlayer(state, {
+        ...createPlayer(action.playerName, action.isHost, action.ip),
+        id: action.playerId,
+        botStrategyId: action.botStrategyId ?? null
+      });
+    case 'remove_player':
+      return removePlayer(state, action.playerId);
+    case 'set_connected':
+      return setPlayerConnected(state, action.playerId, action.isConnected);
+    case 'set_away':
+      return setPlayerAway(state, action.playerId, action.awayMode);
+    case 'set_host':
+      return setHost(state, action.playerId);
+    case 'select_slot':
+      return selectSlot(state, action.playerId, action.slot);
+    case 'start_game':
+      return rollDiceForRound(startGame(state, action.seed));
+    case 'make_bid':
+      return makeBid(state, action.playerId, action.quantity, action.faceValue);
+    case 'call_dudo':
+      return resolveDudo(state, action.playerId, action.targetBidIndex).newState;
+    case 'call_jonti':
+      {
+        const { newState, result } = callJonti(state, action.playerId);
+        return applyJontiResult(newState, result).newState;
+      }
+    case 'call_calza':
+      {
+        const { newState, result } = callCalza(state, action.playerId);
+        return applyCalzaResult(newState, result).newState;
+      }
+    case 'play_card':
+      return playCard(state, action.playerId, action.card);
+    case 'forfeit_die':
+      return forfeitDie(state, action.playerId);
+    case 'eliminate_player':
+      return eliminatePlayer(state, action.playerId);
+    case 'start_round':
+      return rollDiceForRound(startNewRound(state));
+    case 'pause_game':
+      return pauseGame(state);
+    case 'resume_game':
+      return resumeGame(state);
+    case 'new_game':
+      return resetGame(state);
+  }
+}
+
+/**
+ * Rebuild the state after the first `step` actions (all of them by default).
+ * Pass the original game id for a state identical to the live one.
+ */
+export function reconstructGameState(
+  settings: GameSettings,
+  actions: GameAction[],
+  step: number = actions.length,
+  gameId?: string
+): GameState {
+  return actions
+    .slice(0, step)
+    .reduce(applyGameAction, createGameState({ ...settings }, gameId));
+}
+
+// ============================================
+// Match Replay
+// ============================================
+
+export interface MatchReplay {
+  record: MatchRecord;
+  states: GameState[]; // states[i] is the state after the first i actions
+  step: number;
+}
+
+/**
+ * Replay a recorded match, keeping the state at every step for fast seeking
+ */
+export function createMatchReplay(record: MatchRecord): MatchReplay {
+  const states: GameState[] = [createGameState({ ...record.settings })];
+  for (const action of record.actions) {
+    states.push(applyGameAction(states[states.length - 1], action));
+  }
+  return { record, states, step: 0 };
+}
+
+export function getReplayState(replay: MatchReplay): GameState {
+  return replay.states[replay.step];
+}
+
+/**
+ * The action that produced the current state (null at the start)
+ */
+export function getReplayAction(replay: MatchReplay): GameAction | null {
+  return replay.step > 0 ? replay.record.actions[replay.step - 1] : null;
+}
+
+export function getReplayLength(replay: MatchReplay): number {
+  return replay.record.actions.length;
+}
+
+export function seekReplay(replay: MatchReplay, step: number): MatchReplay {
+  return { ...replay, step: Math.max(0, Math.min(step, getReplayLength(replay))) };
+}
+
+export function stepReplayForward(replay: MatchReplay): MatchReplay {
+  return seekReplay(replay, replay.step + 1);
+}
+
+export function stepReplayBackward(replay: MatchReplay): MatchReplay {
+  return seekReplay(replay, replay.step - 1);
+}
@@ -49,6 +49,16 @@ export interface Card {
   timing: CardTiming;
 }
 
+// Bot players
+export type BotDifficulty = 'easy' | 'medium' | 'hard';
+
+// A bot strategy the server can seat (built-in difficulties and any loaded from the strategies directory)
+export interface BotStrategyInfo {
+  id: string;
+  name: string;
+  description: string;
+}
+
 // Player
 export interface Player {
   id: string;
@@ -60,14 +70,18 @@ export interface Player {
   isConnected: boolean;
   isHost: boolean;
   isEliminated: boolean;
+  hasHadLastStand: boolean; // Last Stand only triggers the first time a player drops to one die
   activeEffects: ActiveEffects;
+  botStrategyId: string | null; // Set for seats played by the server
+  awayMode: DisconnectAction | null; // Set once a disconnected player's grace period is over
 }
 
 // Public player info (visible to other players)
 export interface PublicPlayerInfo {
   id: string;
   name: string;
-  ip: string;
+  ip: string | null;   // null unless the server's IP visibility lets this viewer see it
+  fingerprint: string; // Stable per-session pseudonym, to tell players apart without their IP
   slot: number | null;
   diceCount: number;
   cardCount: number;
@@ -75,6 +89,24 @@ export interface PublicPlayerInfo {
   isHost: boolean;
   isEliminated: boolean;
   activeEffects: ActiveEffects;
+  botStrategyId: string | null;
+  awayMode: DisconnectAction | null;
+  timeBank: PlayerTimeBank | null; // Chess clock, when the session uses time banks
+}
+
+// What a session sends for one player's network identity
+export interface PlayerNetworkInfo {
+  ip: string | null;
+  fingerprint: string;
+}
+
+// Who sees player IP addresses (a server-wide setting)
+export type IpVisibility = 'hidden' | 'host' | 'everyone';
+
+// A player's chess clock, kept by the session rather than the replayed state
+export interface PlayerTimeBank {
+  remainingMs: number; // When the state was sent
+  running: boolean;    // Counting down (this player is bidding and the game is not paused)
 }
 
 // Bid
@@ -94,15 +126,36 @@ export type GamePhase =
   | 'game_over'
   | 'paused';
 
+// Round Modifier (special rules for a single round)
+export interface RoundModifier {
+  type: 'last_stand';
+  triggeredBy: string;            // Player who dropped to one die
+  lockedFaceValue: number | null; // Face value set by the opening bid (null until the first bid)
+}
+
 // Game Mode
 export type GameMode = 'classic' | 'tactical' | 'chaos';
 
+// What the server does for a bidder who runs out of time
+export type TurnTimeoutAction = 'min_raise' | 'dudo' | 'lose_die';
+
+// How a disconnected player's seat is played once their grace period is over
+export type DisconnectAction = 'skip' | 'bot';
+
 // Game Settings
 export interface GameSettings {
   mode: GameMode;
   maxPlayers: number;
   enableCalza: boolean;
   enableLastStand: boolean;
+  allowOddsOverlay: boolean; // Players may show bid probabilities in the bid panel
+  turnTimeLimit: number; // Seconds per bidding turn (0 = no limit)
+  turnTimeoutAction: TurnTimeoutAction;
+  timeBank: number;          // Seconds each player has for the whole game (0 = no time banks)
+  timeBankIncrement: number; // Seconds added to a player's bank after each of their turns
+  disconnectGracePeriod: number; // Seconds a disconnected player's seat waits for them (0 = wait indefinitely)
+  disconnectAction: DisconnectAction;
+  disconnectForfeitTime: number; // Seconds after the grace period before an absent player forfeits (0 = never)
 }
 
 // Game State
@@ -118,6 +171,12 @@ export interface GameState {
   winnerId: string | null;
   lastDudoResult: DudoResult | null;
   pausedFromPhase: GamePhase | null;
+  roundModifier: RoundModifier | null;
+  forfeitedPlayerId: string | null; // Lost a die to a turn timeout, ending the round (starts the next one)
+  deck: Card[];        // Draw pile (single source of cards for the session)
+  discardPile: Card[]; // Played cards, reshuffled into the deck when it runs out
+  seed: string | null; // Secret seed recorded at game start (never sent to clients)
+  rngState: number;    // Current position of the seeded RNG
 }
 
 // Public game state (sent to clients)
@@ -133,6 +192,18 @@ export interface PublicGameState {
   winnerId: string | null;
   lastDudoResult: DudoResult | null;
   pausedFromPhase: GamePhase | null;
+  roundModifier: RoundModifier | null;
+  deckCount: number;
+  discardCount: number;
+  turnTimer: TurnTimer | null; // Set while the current bidder is on the clock
+}
+
+// The current bidder's clock, kept by the session rather than the replayed state
+export interface TurnTimer {
+  playerId: string;
+  durationMs: number;
+  remainingMs: number;     // When the state was sent
+  deadline: number | null; // Server time the turn times out; null while the game is paused
 }
 
 // Dudo Result
@@ -144,6 +215,7 @@ export interface DudoResult {
   success: boolean; // true if caller was correct (bid was a bluff)
   loserId: string;
   revealedDice: { playerId: string; dice: Die[] }[];
+  targetBidIndex: number | null; // Index into previousBids when challenged with Late Dudo
 }
 
 // Jonti Result
@@ -155,14 +227,304 @@ export interface JontiResult {
   revealedDice: { playerId: string; dice: Die[] }[];
 }
 
+// Calza Result
+export interface CalzaResult {
+  callerId: string;
+  bid: Bid;
+  actualCount: number;
+  success: boolean; // true if bid was exactly correct (caller regains a die)
+  revealedDice: { playerId: string; dice: Die[] }[];
+}
+
+// ============================================
+// Dice Commitment Types (Provably Fair Dice)
+// ============================================
+
+// Hash of a player's hand plus a secret salt, published before the hand is used
+export interface DiceCommitment {
+  playerId: string;
+  version: number; // 0 for the round's roll, incremented whenever a card changes the hand
+  hash: string;    // SHA-256 hex
+}
+
+// Opening of a commitment, published once the round is settled
+export interface DiceReveal {
+  playerId: string;
+  version: number;
+  dice: Die[];
+  salt: string;
+}
+
+export interface DiceVerificationResult {
+  verified: boolean;
+  checkedCount: number;
+  mismatchedPlayerIds: string[];
+}
+
+// ============================================
+// Game Event Log
+// ============================================
+
+// Part of an event that only some players may see (e.g. their own dice or a peeked die)
+export interface PrivateEventDetail<T> {
+  visibleTo: string[]; // Player IDs allowed to see it; empty means server only
+  data: T;
+}
+
+export interface GameEventBase {
+  seq: number;        // Position in the session's log
+  timestamp: number;
+  gameNumber: number; // Game within the session (0 before the first game starts)
+}
+
+export interface PlayerJoinedEvent extends GameEventBase {
+  type: 'player_joined';
+  playerId: string;
+  playerName: string;
+}
+
+export interface PlayerReconnectedEvent extends GameEventBase {
+  type: 'player_reconnected';
+  playerId: string;
+}
+
+export interface PlayerDisconnectedEvent extends GameEventBase {
+  type: 'player_disconnected';
+  playerId: string;
+}
+
+export interface PlayerKickedEvent extends GameEventBase {
+  type: 'player_kicked';
+  playerId: string;
+  kickedBy: string;
+}
+
+// Why the host changed: handed over by the host, or moved on after the host was gone too long
+export type HostChangeReason = 'transfer' | 'migration';
+
+export interface HostChangedEvent extends GameEventBase {
+  type: 'host_changed';
+  playerId: string;
+  previousHostId: string | null;
+  reason: HostChangeReason;
+}
+
+export interface SlotSelectedEvent extends GameEventBase {
+  type: 'slot_selected';
+  playerId: string;
+  slot: number | null;
+}
+
+export interface SettingsUpdatedEvent extends GameEventBase {
+  type: 'settings_updated';
+  settings: GameSettings;
+}
+
+export interface GameStartedEvent extends GameEventBase {
+  type: 'game_started';
+  playerIds: string[];
+  settings: GameSettings;
+  startingPlayerId: string;
+  privateDetails: PrivateEventDetail<{ seed: string }>[];
+}
+
+export interface RoundStartedEvent extends GameEventBase {
+  type: 'round_started';
+  roundNumber: number;
+  startingPlayerId: string;
+  roundModifier: RoundModifier | null;
+  diceCounts: { playerId: string; count: number }[];
+  privateDetails: PrivateEventDetail<{ playerId: string; dice: Die[] }>[];
+}
+
+export interface BidEvent extends GameEventBase {
+  type: 'bid';
+  playerId: string;
+  bid: Bid;
+}
+
+export interface DudoEvent extends GameEventBase {
+  type: 'dudo';
+  callerId: string;
+  result: DudoResult;
+  insuranceUsed: boolean;
+  doubleDudo: boolean;
+}
+
+export interface JontiEvent extends GameEventBase {
+  type: 'jonti';
+  callerId: string;
+  result: JontiResult;
+}
+
+export interface CalzaEvent extends GameEventBase {
+  type: 'calza';
+  callerId: string;
+  result: CalzaResult;
+}
+
+export interface CardPlayedPrivateData {
+  targetDieId?: string;
+  additionalData?: CardAdditionalData;
+  result?: CardResult;                            // What the card revealed to its player
+  updatedHand?: { playerId: string; dice: Die[] }; // A hand the card changed, shown to its owner
+}
+
+export interface CardPlayedEvent extends GameEventBase {
+  type: 'card_played';
+  playerId: string;
+  cardId: string;
+  cardType: CardType;
+  cardName: string;
+  targetPlayerId: string | null;
+  privateDetails: PrivateEventDetail<CardPlayedPrivateData>[];
+}
+
+export interface CardDrawnEvent extends GameEventBase {
+  type: 'card_drawn';
+  playerId: string;
+  privateDetails: PrivateEventDetail<{ card: Card }>[];
+}
+
+export interface PlayerEliminatedEvent extends GameEventBase {
+  type: 'player_eliminated';
+  playerId: string;
+}
+
+export interface GameOverEvent extends GameEventBase {
+  type: 'game_over';
+  winnerId: string | null;
+}
+
+export interface GamePausedEvent extends GameEventBase {
+  type: 'game_paused';
+  playerId: string | null; // null when auto-paused because everyone disconnected
+}
+
+export interface GameResumedEvent extends GameEventBase {
+  type: 'game_resumed';
+  playerId: string;
+}
+
+export interface GameResetEvent extends GameEventBase {
+  type: 'game_reset';
+  playerId: string;
+}
+
+export interface TurnTimeoutEvent extends GameEventBase {
+  type: 'turn_timeout';
+  playerId: string;
+  timeoutAction: TurnTimeoutAction;
+}
+
+export interface TimeBankExpiredEvent extends GameEventBase {
+  type: 'time_bank_expired';
+  playerId: string;
+}
+
+export interface PlayerAwayEvent extends GameEventBase {
+  type: 'player_away';
+  playerId: string;
+  awayMode: DisconnectAction;
+}
+
+export interface PlayerForfeitedEvent extends GameEventBase {
+  type: 'player_forfeited';
+  playerId: string;
+}
+
+export type GameEvent =
+  | PlayerJoinedEvent
+  | PlayerReconnectedEvent
+  | PlayerDisconnectedEvent
+  | PlayerKickedEvent
+  | SlotSelectedEvent
+  | SettingsUpdatedEvent
+  | GameStartedEvent
+  | RoundStartedEvent
+  | BidEvent
+  | DudoEvent
+  | JontiEvent
+  | CalzaEvent
+  | CardPlayedEvent
+  | CardDrawnEvent
+  | PlayerEliminatedEvent
+  | GameOverEvent
+  | GamePausedEvent
+  | GameResumedEvent
+  | GameResetEvent
+  | TurnTimeoutEvent
+  | TimeBankExpiredEvent
+  | PlayerAwayEvent
+  | PlayerForfeitedEvent
+  | HostChangedEvent;
+
+export type GameEventType = GameEvent['type'];
+
+// An event before the log assigns its position
+export type NewGameEvent = {
+  [K in GameEventType]: Omit<Extract<GameEvent, { type: K }>, keyof GameEventBase>
+}[GameEventType];
+
+// ============================================
+// Game Actions (Replay)
+// ============================================
+
+// Every input that changes a session's GameState. Folding the recorded actions over
+// createGameState (with the seed carried by start_game) reproduces the state exactly.
+export type GameAction =
+  | { type: 'update_settings'; settings: Partial<GameSettings> }
+  | { type: 'add_player'; playerId: string; playerName: string; isHost: boolean; ip: string; botStrategyId?: string }
+  | { type: 'remove_player'; playerId: string }
+  | { type: 'set_connected'; playerId: string; isConnected: boolean }
+  | { type: 'set_away'; playerId: string; awayMode: DisconnectAction }
+  | { type: 'set_host'; playerId: string }
+  | { type: 'select_slot'; playerId: string; slot: number | null }
+  | { type: 'start_game'; seed: string }
+  | { type: 'make_bid'; playerId: string; quantity: number; faceValue: number }
+  | { type: 'call_dudo'; playerId: string; targetBidIndex: number | null }
+  | { type: 'call_jonti'; playerId: string }
+  | { type: 'call_calza'; playerId: string }
+  | { type: 'play_card'; playerId: string; card: PlayCardPayload }
+  | { type: 'forfeit_die'; playerId: string }
+  | { type: 'eliminate_player'; playerId: string }
+  | { type: 'start_round' }
+  | { type: 'pause_game' }
+  | { type: 'resume_game' }
+  | { type: 'new_game' };
+
+export type GameActionType = GameAction['type'];
+
+// Everything needed to replay one game of a session
+export interface MatchRecord {
+  sessionId: string;
+  gameNumber: number;
+  settings: GameSettings; // Settings passed to createGameState
+  seed: string;
+  actions: GameAction[];  // Lobby setup, then every action from start_game on
+  startedAt: number;
+  endedAt: number | null;
+}
+
 // ============================================
 // Network Messages
 // ============================================
 
 
 // Specific message payloads
+
+// Messages with nothing to say beyond their type
+export type EmptyPayload = Record<string, never>;
+
+export interface RegisterPayload {
+  identityId?: string;
+  playerName: string;
+  reconnectToken?: string;
+}
+
 export interface JoinGamePayload {
   playerName: string;
+  reconnectToken?: string; // Issued with connection_accepted; reclaims a disconnected seat
 }
 
 export interface MakeBidPayload {
@@ -170,16 +532,256 @@ export interface MakeBidPayload {
   faceValue: number;
 }
 
+export interface CallDudoPayload {
+  targetBidIndex?: number; // Index into previousBids (requires Late Dudo)
+}
+
 export interface PlayCardPayload {
   cardId: string;
   targetPlayerId?: string;
   targetDieId?: string;
-  additionalData?: any;
+  additionalData?: CardAdditionalData;
+}
+
+// Extra targeting for cards that need more than a player or die id
+export interface CardAdditionalData {
+  dieIndex?: number;   // Target die by position in the target player's hand
+  dieIds?: string[];   // Gauge: the two dice to measure, as "playerId-dieIndex"
+  faceValue?: number;  // Wild Shift: the new wild face
+}
+
+// An opponent's die, by id or by position in their hand
+export interface CardDieTarget {
+  targetPlayerId: string;
+  targetDieId?: string;
+  additionalData?: { dieIndex: number };
+}
+
+// What each card type is played with, besides its id
+export interface CardInputs {
+  peek: CardDieTarget;
+  gauge: { additionalData: { dieIds: [string, string] } };
+  false_tell: {};
+  inflation: {};
+  wild_shift: { additionalData: { faceValue: number } };
+  phantom_bid: {};
+  insurance: {};
+  double_dudo: {};
+  late_dudo: {};
+  reroll_one: { targetDieId: string };
+  blind_swap: { targetDieId: string; targetPlayerId: string }; // Our die, and whose hand to swap with
+  polish: { targetDieId: string };
+  crack: CardDieTarget;
+}
+
+export type CardInput<K extends CardType = CardType> = {
+  [T in K]: { cardType: T } & CardInputs[T];
+}[K];
+
+export interface AddBotPayload {
+  slot: number;
+  strategyId: string;
+}
+
+export interface TransferHostPayload {
+  playerId: string;
+}
+
+export interface KickPlayerPayload {
+  playerId: string;
+}
+
+export interface SelectSlotPayload {
+  slot: number | null; // null leaves the current slot
+}
+
+export interface SendChatPayload {
+  message: string;
+}
+
+export interface RegisteredPayload {
+  identityId: string;
+  playerName: string;
+  previousSessionId: string | null;
+}
+
+export interface ConnectionAcceptedPayload {
+  playerId: string;
+  isHost: boolean;
+  reconnectToken?: string; // Not issued by the legacy GameServer
+  gameState: PublicGameState;
+}
+
+export interface GameStatePayload {
+  gameState: PublicGameState;
+}
+
+export interface PlayerJoinedPayload {
+  playerId: string;
+  playerName: string;
+  gameState: PublicGameState;
+}
+
+export interface PlayerLeftPayload {
+  playerId: string;
+  playerName: string;
+  gameState: PublicGameState;
+}
+
+export interface PlayerKickedPayload {
+  reason: string;
+}
+
+export interface ChatPayload {
+  playerId: string; // Empty for spectators
+  playerName: string;
+  message: string;
+  timestamp: number;
+}
+
+export interface GameStartedPayload {
+  gameState: PublicGameState;
+  commitments?: DiceCommitment[]; // Not sent by the legacy GameServer
+}
+
+export interface RoundStartedPayload {
+  roundNumber: number;
+  gameState: PublicGameState;
+  commitments?: DiceCommitment[]; // Not sent by the legacy GameServer
+}
+
+export interface BidMadePayload {
+  playerId: string;
+  bid: Bid;
+  gameState: PublicGameState;
+}
+
+export interface ChallengeCalledPayload {
+  callerId: string;
+  callerName: string;
+}
+
+export interface ChallengeResultPayload<T> {
+  result: T;
+  reveals?: DiceReveal[]; // Not sent by the legacy GameServer
+  gameState: PublicGameState;
+}
+
+export interface GameOverPayload {
+  winnerId: string | null;
+  winnerName?: string;
+  gameNumber?: number; // Match to replay; not sent by the legacy GameServer
+  gameState: PublicGameState;
+}
+
+export interface GamePausedPayload {
+  pausedBy: string;
+  gameState: PublicGameState;
+}
+
+export interface GameResumedPayload {
+  resumedBy: string;
+  gameState: PublicGameState;
+}
+
+export interface CardPlayedPayload {
+  playerId: string;
+  cardType: CardType;
+  cardName: string;
+  result?: CardResult;         // Only sent to the player who played the card (False Tell's goes to everyone)
+  gameState?: PublicGameState;
+}
+
+// What Gauge shows of one die
+export interface GaugedDie {
+  playerId: string;
+  playerName: string;
+  dieType: DieType;
+}
+
+// What each card type tells the player who played it
+export interface CardResults {
+  peek: { die: Die };
+  gauge: { dieInfos: GaugedDie[] };
+  false_tell: { message: string };
+  inflation: { message: string };
+  wild_shift: { message: string };
+  phantom_bid: { message: string };
+  insurance: { message: string };
+  double_dudo: { message: string };
+  late_dudo: { message: string };
+  reroll_one: { message: string };
+  blind_swap: { message: string };
+  polish: { message: string };
+  crack: { message: string };
+}
+
+export type CardResult<K extends CardType = CardType> = {
+  [T in K]: { cardType: T } & CardResults[T];
+}[K];
+
+export interface CardDrawnPayload {
+  card: Card;
+}
+
+export interface HostChangedPayload {
+  hostId: string;
+  hostName: string;
+  previousHostId: string | null;
+  reason: HostChangeReason;
+  gameState: PublicGameState;
 }
 
 export interface PrivateInfoPayload {
   dice: Die[];
   cards: Card[];
+  playableCardIds: string[]; // Cards the server will accept right now
+}
+
+export interface DiceCommitmentsPayload {
+  roundNumber: number;
+  commitments: DiceCommitment[];
+}
+
+export interface GetGameEventsPayload {
+  sinceSeq?: number; // Only events after this position
+}
+
+export interface GameEventsPayload {
+  events: GameEvent[];
+}
+
+export interface TurnTimeoutPayload {
+  playerId: string;
+  playerName: string;
+  timeoutAction: TurnTimeoutAction;
+  // Only when the player forfeited a die, which ends the round
+  revealedDice?: { playerId: string; dice: Die[] }[];
+  reveals?: DiceReveal[];
+  gameState?: PublicGameState;
+}
+
+export interface TimeBankExpiredPayload {
+  playerId: string;
+  playerName: string;
+  gameState: PublicGameState;
+}
+
+export interface PlayerAwayPayload {
+  playerId: string;
+  playerName: string;
+  awayMode: DisconnectAction;
+  gameState: PublicGameState;
+}
+
+export interface PlayerForfeitedPayload {
+  playerId: string;
+  playerName: string;
+  gameState: PublicGameState;
+}
+
+export interface SpectatingPayload {
+  gameState: PublicGameState;
 }
 
 export interface ServerInfoPayload {
@@ -187,11 +789,19 @@ export interface ServerInfoPayload {
   port: number;
   playerCount: number;
   maxPlayers: number;
+  botStrategies: BotStrategyInfo[];
 }
 
 export interface ErrorPayload {
   message: string;
   code: string;
+  fields?: ValidationIssue[]; // Set for VALIDATION_ERROR
+}
+
+// One problem with a client message, e.g. { field: 'payload.quantity', message: 'must be an integer from 1 to 60' }
+export interface ValidationIssue {
+  field: string;
+  message: string;
 }
 
 // ============================================
@@ -206,6 +816,8 @@ export interface SessionInfo {
   maxPlayers: number;
   phase: GamePhase;
   mode: GameMode;
+  spectatorCount: number;
+  hasPassword: boolean;
   createdAt: number;
 }
 
@@ -218,82 +830,119 @@ export interface CreateSessionPayload {
   sessionName: string;
   hostName: string;
   settings?: Partial<GameSettings>;
+  password?: string;
+  unlisted?: boolean; // Hidden from the session browser; join with the invite code
 }
 
 export interface JoinSessionPayload {
-  sessionId: string;
+  sessionId: string;   // Session id or invite code
   playerName: string;
+  spectate?: boolean;  // Watch without taking a seat
+  password?: string;
+  reconnectToken?: string;
+}
+
+export interface SessionJoinedPayload {
+  sessionId: string;
+  sessionName: string;
+  inviteCode: string;
 }
 
 export interface UpdateSessionSettingsPayload {
   mode?: GameMode;
   maxPlayers?: number;
+  enableCalza?: boolean;
+  enableLastStand?: boolean;
+  allowOddsOverlay?: boolean;
+  turnTimeLimit?: number;
+  turnTimeoutAction?: TurnTimeoutAction;
+  timeBank?: number;
+  timeBankIncrement?: number;
+  disconnectGracePeriod?: number;
+  disconnectAction?: DisconnectAction;
+  disconnectForfeitTime?: number;
 }
 
-// Extended client message types to include session management
-export type ClientMessageType = 
-  | 'register'           // Register with the server (get player identity)
-  | 'list_sessions'      // Request session list
-  | 'create_session'     // Create a new game session
-  | 'join_session'       // Join an existing session
-  | 'leave_session'      // Leave current session (back to browser)
-  | 'update_session_settings' // Update session settings (host only)
-  | 'delete_session'     // Delete the session (host only)
-  | 'join_game'
-  | 'start_game'
-  | 'make_bid'
-  | 'call_dudo'
-  | 'call_calza'
-  | 'call_jonti'
-  | 'play_card'
-  | 'ready_for_round'
-  | 'chat'
-  | 'new_game'
-  | 'pause_game'
-  | 'resume_game'
-  | 'kick_player'
-  | 'select_slot';
-
-// Extended server message types
-export type ServerMessageType = 
-  | 'registered'          // Player registered with server
-  | 'sessions_list'       // List of available sessions
-  | 'session_created'     // Session was created successfully
-  | 'session_joined'      // Successfully joined a session
-  | 'session_left'        // Left the session
-  | 'session_updated'     // Session info updated (for browser refresh)
-  | 'session_settings_updated' // Session settings changed by host
-  | 'session_deleted'     // Session was deleted by host
-  | 'connection_accepted'
-  | 'player_joined'
-  | 'player_left'
-  | 'game_started'
-  | 'game_state_update'
-  | 'private_info'
-  | 'dice_rolled'
-  | 'bid_made'
-  | 'dudo_called'
-  | 'dudo_result'
-  | 'jonti_called'
-  | 'jonti_result'
-  | 'round_started'
-  | 'round_ended'
-  | 'game_over'
-  | 'card_played'
-  | 'card_drawn'
-  | 'error'
-  | 'chat'
-  | 'server_info'
-  | 'game_paused'
-  | 'game_resumed'
-  | 'player_kicked';
-
-export interface ClientMessage {
-  type: ClientMessageType;
-  payload: any;
+// Payload carried by each client message type
+export interface ClientMessagePayloads {
+  register: RegisterPayload;                  // Register with the server (get player identity)
+  list_sessions: EmptyPayload;                // Request session list
+  create_session: CreateSessionPayload;       // Create a new game session
+  join_session: JoinSessionPayload;           // Join an existing session
+  leave_session: EmptyPayload;                // Leave current session (back to browser)
+  update_session_settings: UpdateSessionSettingsPayload; // Update session settings (host only)
+  delete_session: EmptyPayload;               // Delete the session (host only)
+  join_game: JoinGamePayload;
+  start_game: EmptyPayload;
+  make_bid: MakeBidPayload;
+  call_dudo: CallDudoPayload;
+  call_calza: EmptyPayload;
+  call_jonti: EmptyPayload;
+  play_card: PlayCardPayload;
+  ready_for_round: EmptyPayload;
+  chat: SendChatPayload;
+  new_game: EmptyPayload;
+  pause_game: EmptyPayload;
+  resume_game: EmptyPayload;
+  kick_player: KickPlayerPayload;
+  select_slot: SelectSlotPayload;
+  add_bot: AddBotPayload;                     // Host fills a lobby slot with a bot
+  transfer_host: TransferHostPayload;         // Host hands host status to another player
+  get_game_events: GetGameEventsPayload;      // Request the session's event log
 }
 
-export interface ServerMessage {
-  type: ServerMessageType;
-  payload: any;
+// Payload carried by each server message type
+export interface ServerMessagePayloads {
+  registered: RegisteredPayload;              // Player registered with server
+  sessions_list: SessionListPayload;          // List of available sessions
+  session_created: SessionJoinedPayload;      // Session was created successfully
+  session_joined: SessionJoinedPayload;       // Successfully joined a session
+  session_left: EmptyPayload;                 // Left the session
+  session_updated: SessionListPayload;        // Session info updated (for browser refresh)
+  session_settings_updated: GameSettings;     // Session settings changed by host
+  session_deleted: EmptyPayload;              // Session was deleted by host
+  connection_accepted: ConnectionAcceptedPayload;
+  spectating: SpectatingPayload;              // Joined a session as a spectator
+  player_joined: PlayerJoinedPayload;
+  player_left: PlayerLeftPayload;
+  game_started: GameStartedPayload;
+  game_state_update: GameStatePayload;
+  private_info: PrivateInfoPayload;
+  bid_made: BidMadePayload;
+  dudo_called: ChallengeCalledPayload;
+  dudo_result: ChallengeResultPayload<DudoResult>;
+  jonti_called: ChallengeCalledPayload;
+  jonti_result: ChallengeResultPayload<JontiResult>;
+  calza_called: ChallengeCalledPayload;
+  calza_result: ChallengeResultPayload<CalzaResult>;
+  round_started: RoundStartedPayload;
+  dice_commitments: DiceCommitmentsPayload;   // Updated dice commitments after a card changed a hand
+  game_events: GameEventsPayload;             // Session event log, filtered for the requesting player
+  game_over: GameOverPayload;
+  card_played: CardPlayedPayload;
+  card_drawn: CardDrawnPayload;
+  error: ErrorPayload;
+  chat: ChatPayload;
+  server_info: ServerInfoPayload;
+  game_paused: GamePausedPayload;
+  game_resumed: GameResumedPayload;
+  player_kicked: PlayerKickedPayload;
+  turn_timeout: TurnTimeoutPayload;           // A bidder ran out of time and the server moved for them
+  time_bank_expired: TimeBankExpiredPayload;  // A player's time bank ran out and they are out of the game
+  player_away: PlayerAwayPayload;             // A disconnected player's grace period ended; their seat is skipped or auto-played
+  player_forfeited: PlayerForfeitedPayload;   // A disconnected player never came back and is out of the game
+  host_changed: HostChangedPayload;           // Host status moved to another player (transferred or migrated)
 }
+
+export type ClientMessageType = keyof ClientMessagePayloads;
+export type ServerMessageType = keyof ServerMessagePayloads;
+
+// A message whose payload is the one its type carries; switching on `type` narrows `payload`.
+// Pass a type to get one message, e.g. ServerMessage<'chat'>.
+export type ClientMessage<K extends ClientMessageType = ClientMessageType> = {
+  [T in K]: { type: T; payload: ClientMessagePayloads[T] };
+}[K];
+
+export type ServerMessage<K extends ServerMessageType = ServerMessageType> = {
+  [T in K]: { type: T; payload: ServerMessagePayloads[T] };
+}[K];